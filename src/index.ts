@@ -11,6 +11,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import * as http from "http";
+import * as childProcess from "child_process";
+import * as crypto from "crypto";
+import * as net from "net";
 
 // === Types (self-contained) ===
 interface ClaudeTask {
@@ -29,11 +32,18 @@ interface ClaudeTaskList {
   id: string;
   tasks: ClaudeTask[];
   lastModified: Date;
+  root: string;
+  projectDir: string;
+  // Task ID -> file version, echoed back by writers to detect concurrent edits
+  versions: Record<string, string>;
 }
 
 interface TaskListSummary {
   id: string;
   path: string;
+  root: string;
+  rootLabel: string;
+  projectDir: string;
   taskCount: number;
   pendingCount: number;
   inProgressCount: number;
@@ -42,57 +52,411 @@ interface TaskListSummary {
   hasPrompt: boolean;
 }
 
+type TaskListWarningType = 'cycle' | 'dangling' | 'asymmetric' | 'deadlock';
+
+interface TaskListWarning {
+  type: TaskListWarningType;
+  message: string;
+  taskIds: string[];
+}
+
 interface TaskMonitorData {
   taskLists: ClaudeTaskList[];
   availableLists: TaskListSummary[];
   selectedListId: string;
   templates: string[];
   projectDir: string;
+  commandTemplates: CommandTemplates;
+  listWarnings: Record<string, TaskListWarning[]>;
+  agentRegistry: AgentRegistrySnapshot;
+  listForecasts: Record<string, TaskListForecast>;
+  // List ID -> task ID -> verification, for completed tasks only
+  listVerification: Record<string, Record<string, TaskVerification>>;
+  listConflicts: Record<string, FileConflict[]>;
+  // Files in a list directory that could not be read as tasks
+  listDiagnostics: Record<string, TaskFileDiagnostic[]>;
+  readOnly: boolean;
 }
 
 // === Monitor Config ===
+// Launch command templates, keyed "<action>.<codeMode>" (Danger = cda, Reg = claude).
+// Placeholders are filled in shell-quoted; a {?...} segment is dropped when any
+// placeholder inside it is empty, e.g. "{? task-id={taskId}}". Shell ${VAR}, [ ... ],
+// [[ ... ]] and brace expansions such as {a,b} are left alone.
+type CommandTemplateKey = 'code.cda' | 'code.claude' | 'task.cda' | 'task.claude' | 'review';
+type CommandTemplates = Record<CommandTemplateKey, string>;
+
+const COMMAND_TEMPLATE_KEYS: CommandTemplateKey[] = ['code.cda', 'code.claude', 'task.cda', 'task.claude', 'review'];
+const TEMPLATE_PLACEHOLDERS = ['projectDir', 'listId', 'taskId', 'agent'];
+// {name} placeholders, and {?...} segments holding text and placeholders but no other braces
+const PLACEHOLDER_PATTERN = /(?<!\$)\{([A-Za-z_]\w*)\}/g;
+const OPTIONAL_SEGMENT_PATTERN = /(?<!\$)\{\?((?:[^{}]|\{[A-Za-z_]\w*\})*)\}/g;
+
+// A directory whose subdirectories are task lists. Lists are identified by directory
+// name alone, so when two roots hold the same list ID the first root listed wins.
+interface TaskRoot {
+  path: string;
+  label?: string;
+  projectDir?: string;
+}
+
+// Maps lists to a project directory by exact list ID or by ID prefix
+interface ProjectRule {
+  listId?: string;
+  prefix?: string;
+  projectDir: string;
+}
+
+// Who may reach the HTTP server. Only editable in monitor-config.json (or through --host and
+// the CLAUDE_TASK_MONITOR_HOST / _TOKEN / _READ_ONLY variables), never through /api/config.
+interface ServerAccessConfig {
+  host: string;
+  // Empty means no authentication
+  authToken: string;
+  allowedOrigins: string[];
+  readOnly: boolean;
+}
+
 interface MonitorConfig {
   projectDir: string;
   pollInterval: number;
   agentNames: string[];
+  tmuxLaunch: boolean;
+  commandTemplates: CommandTemplates;
+  taskRoots: TaskRoot[];
+  projectRules: ProjectRule[];
+  server: ServerAccessConfig;
+}
+
+// === Command line ===
+
+interface CliOptions {
+  help: boolean;
+  installSkill: boolean;
+  open: boolean;
+  port?: number;
+  host?: string;
+  tasksDir?: string;
+  dataDir?: string;
+  configFile?: string;
+  profile?: string;
+  pollInterval?: number;
+  projectDir?: string;
+}
+
+// Flags that take a value, as `--flag value` or `--flag=value`
+const CLI_VALUE_FLAGS = ['--port', '--host', '--tasks-dir', '--data-dir', '--config', '--profile', '--poll-interval', '--project-dir'];
+
+// Same rule for the flag, the config file and the settings API: the settings form only takes
+// whole milliseconds and resubmits the value on every save
+function isValidPollInterval(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 500 && value <= 60000;
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+// Parsed before anything else so the flags can decide where the config and data live.
+// Errors are reported by main(), which is also where --help is handled.
+function parseCliArgs(args: string[]): { options: CliOptions; error?: string } {
+  const options: CliOptions = { help: false, installSkill: false, open: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') { options.help = true; continue; }
+    if (arg === '--install-skill') { options.installSkill = true; continue; }
+    if (arg === '--open') { options.open = true; continue; }
+    const eq = arg.indexOf('=');
+    const flag = arg.startsWith('--') && eq !== -1 ? arg.slice(0, eq) : arg;
+    if (!CLI_VALUE_FLAGS.includes(flag)) {
+      return { options, error: `Unknown option: ${arg}` };
+    }
+    const value = flag !== arg ? arg.slice(eq + 1) : args[++i];
+    if (value === undefined || value.trim().length === 0) {
+      return { options, error: `${flag} needs a value` };
+    }
+    if (flag === '--port') {
+      const port = Number(value);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        return { options, error: '--port must be a number between 1 and 65535' };
+      }
+      options.port = port;
+    } else if (flag === '--poll-interval') {
+      const interval = Number(value);
+      if (!isValidPollInterval(interval)) {
+        return { options, error: '--poll-interval must be a whole number of milliseconds between 500 and 60000' };
+      }
+      options.pollInterval = interval;
+    } else if (flag === '--profile') {
+      if (!/^[A-Za-z0-9_-]+$/.test(value)) {
+        return { options, error: '--profile names may only contain letters, digits, - and _' };
+      }
+      options.profile = value;
+    } else if (flag === '--host') {
+      options.host = value.trim();
+    } else {
+      const resolved = path.resolve(expandHome(value.trim()));
+      if (flag === '--tasks-dir') options.tasksDir = resolved;
+      if (flag === '--data-dir') options.dataDir = resolved;
+      if (flag === '--config') options.configFile = resolved;
+      if (flag === '--project-dir') options.projectDir = resolved;
+    }
+  }
+  if (options.configFile && options.profile) {
+    return { options, error: '--config and --profile cannot be combined' };
+  }
+  return { options };
 }
 
-const DATA_DIR = process.env.CLAUDE_TASK_MONITOR_DATA_DIR
+const CLI = parseCliArgs(process.argv.slice(2));
+const CLI_OPTIONS = CLI.options;
+
+// Flags win over the environment, which wins over the defaults
+const DATA_DIR = CLI_OPTIONS.dataDir
+  || process.env.CLAUDE_TASK_MONITOR_DATA_DIR
   || path.join(os.homedir(), '.claude', 'claude-task-monitor');
-const CONFIG_FILE = path.join(DATA_DIR, 'monitor-config.json');
+// Profiles are whole config files kept next to the default one
+const CONFIG_FILE = CLI_OPTIONS.configFile
+  || path.join(DATA_DIR, CLI_OPTIONS.profile ? `monitor-config.${CLI_OPTIONS.profile}.json` : 'monitor-config.json');
+// A profile keeps its own history, leases and output, so profiles can run side by side
+const STATE_DIR = CLI_OPTIONS.profile ? path.join(DATA_DIR, 'profiles', CLI_OPTIONS.profile) : DATA_DIR;
+const DEFAULT_TASKS_DIR = path.join(os.homedir(), ".claude", "tasks");
+const TASKS_DIR = CLI_OPTIONS.tasksDir || DEFAULT_TASKS_DIR;
+const PORT = CLI_OPTIONS.port || parseInt(process.env.CLAUDE_TASK_MONITOR_PORT || '8080', 10);
 
 const DEFAULT_CONFIG: MonitorConfig = {
   projectDir: process.cwd(),
   pollInterval: 2000,
-  agentNames: ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'omicron', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega']
+  agentNames: ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'omicron', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega'],
+  tmuxLaunch: false,
+  commandTemplates: {
+    'code.cda': "cd {projectDir} && ./scripts/cda-agent.sh --task-list {listId} --agent $(tmux display-message -p '#S')",
+    'code.claude': "cd {projectDir} && npm run agents:run -- --task-list {listId} --agent $(tmux display-message -p '#S')",
+    'task.cda': "cd {projectDir} && ./scripts/cda-agent.sh --task-list {listId} --agent $(tmux display-message -p '#S')",
+    'task.claude': "cd {projectDir} && npm run agents:run -- --task-list {listId} --agent $(tmux display-message -p '#S') --mode task-{taskId}",
+    'review': "$codex-claude-review name=$(tmux display-message -p '#S') task-list={listId}{? task-id={taskId}}",
+  },
+  taskRoots: [{ path: DEFAULT_TASKS_DIR }],
+  projectRules: [],
+  server: {
+    host: '127.0.0.1',
+    authToken: '',
+    allowedOrigins: [],
+    readOnly: false,
+  },
 };
 
-let currentConfig: MonitorConfig = { ...DEFAULT_CONFIG };
+// Config fields given on the command line. They win over the config file for this run and
+// are never saved to it; the settings panel shows them as locked.
+const CONFIG_OVERRIDES: Partial<MonitorConfig> = {};
+const CONFIG_OVERRIDE_FLAGS: Partial<Record<keyof MonitorConfig, string>> = {};
+if (CLI_OPTIONS.projectDir) {
+  CONFIG_OVERRIDES.projectDir = CLI_OPTIONS.projectDir;
+  CONFIG_OVERRIDE_FLAGS.projectDir = '--project-dir';
+}
+if (CLI_OPTIONS.pollInterval) {
+  CONFIG_OVERRIDES.pollInterval = CLI_OPTIONS.pollInterval;
+  CONFIG_OVERRIDE_FLAGS.pollInterval = '--poll-interval';
+}
+if (CLI_OPTIONS.tasksDir) {
+  CONFIG_OVERRIDES.taskRoots = [{ path: CLI_OPTIONS.tasksDir }];
+  CONFIG_OVERRIDE_FLAGS.taskRoots = '--tasks-dir';
+}
+
+// savedConfig is what the config file holds; currentConfig adds the command-line overrides
+let savedConfig: MonitorConfig = { ...DEFAULT_CONFIG };
+let currentConfig: MonitorConfig = { ...DEFAULT_CONFIG, ...CONFIG_OVERRIDES };
+// Problems found by the last loadConfig(); reported by /api/health
+let configErrors: string[] = [];
 
 function loadConfig(): MonitorConfig {
+  configErrors = [];
   try {
     if (fs.existsSync(CONFIG_FILE)) {
       const raw = fs.readFileSync(CONFIG_FILE, 'utf-8');
       const parsed = JSON.parse(raw);
+      if (typeof parsed.schemaVersion === 'number' && parsed.schemaVersion > CONFIG_SCHEMA_VERSION) {
+        configErrors.push(`Config schema version ${parsed.schemaVersion} is newer than this monitor supports (${CONFIG_SCHEMA_VERSION}); unknown settings are ignored`);
+      }
+      // Invalid roots or rules fall back to defaults, which can silently hide lists
+      for (const [key, validation] of [['taskRoots', validateTaskRoots(parsed.taskRoots)], ['projectRules', validateProjectRules(parsed.projectRules)]] as const) {
+        if (parsed[key] !== undefined && !validation.valid) configErrors.push(`${key}: ${validation.error}`);
+      }
       return {
         projectDir: typeof parsed.projectDir === 'string' && parsed.projectDir.length > 0 ? parsed.projectDir : DEFAULT_CONFIG.projectDir,
-        pollInterval: typeof parsed.pollInterval === 'number' && parsed.pollInterval >= 500 && parsed.pollInterval <= 60000 ? parsed.pollInterval : DEFAULT_CONFIG.pollInterval,
+        pollInterval: isValidPollInterval(parsed.pollInterval) ? parsed.pollInterval : DEFAULT_CONFIG.pollInterval,
         agentNames: Array.isArray(parsed.agentNames) && parsed.agentNames.length > 0 && parsed.agentNames.every((n: unknown) => typeof n === 'string' && n.length > 0) ? parsed.agentNames : DEFAULT_CONFIG.agentNames,
+        tmuxLaunch: typeof parsed.tmuxLaunch === 'boolean' ? parsed.tmuxLaunch : DEFAULT_CONFIG.tmuxLaunch,
+        commandTemplates: loadCommandTemplates(parsed.commandTemplates),
+        taskRoots: validateTaskRoots(parsed.taskRoots).roots || DEFAULT_CONFIG.taskRoots,
+        projectRules: validateProjectRules(parsed.projectRules).rules || DEFAULT_CONFIG.projectRules,
+        server: loadServerAccess(parsed.server),
       };
     }
   } catch (err) {
     console.error('[Config] Failed to load config, using defaults:', err);
+    configErrors.push(`Failed to load ${CONFIG_FILE}, using defaults: ${(err as Error).message}`);
   }
   return { ...DEFAULT_CONFIG };
 }
 
+function useConfig(config: MonitorConfig): void {
+  savedConfig = config;
+  currentConfig = { ...config, ...CONFIG_OVERRIDES };
+}
+
+// Swaps overridden fields back to their saved values, so a save never persists a flag
+function withoutConfigOverrides(config: MonitorConfig): MonitorConfig {
+  const saved = { ...config };
+  for (const key of Object.keys(CONFIG_OVERRIDES) as (keyof MonitorConfig)[]) {
+    Object.assign(saved, { [key]: savedConfig[key] });
+  }
+  return saved;
+}
+
+// Keeps each valid template from the file and falls back to the default for the rest
+function loadCommandTemplates(input: unknown): CommandTemplates {
+  const templates: CommandTemplates = { ...DEFAULT_CONFIG.commandTemplates };
+  if (typeof input !== 'object' || input === null) return templates;
+  for (const key of COMMAND_TEMPLATE_KEYS) {
+    const value = (input as Record<string, unknown>)[key];
+    if (typeof value === 'string' && !validateCommandTemplate(key, value)) templates[key] = value;
+  }
+  return templates;
+}
+
+function validateCommandTemplate(key: string, template: string): string | null {
+  if (template.trim().length === 0) {
+    return `Command template ${key} must be a non-empty string`;
+  }
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!TEMPLATE_PLACEHOLDERS.includes(match[1])) {
+      return `Unknown placeholder {${match[1]}} in ${key}; use ${TEMPLATE_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}`;
+    }
+  }
+  if (/(?<!\$)\{\?/.test(template.replace(OPTIONAL_SEGMENT_PATTERN, ''))) {
+    return `Unclosed or nested {?...} in ${key}`;
+  }
+  return null;
+}
+
+function loadServerAccess(input: unknown): ServerAccessConfig {
+  const access: ServerAccessConfig = { ...DEFAULT_CONFIG.server };
+  if (typeof input !== 'object' || input === null) return access;
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.host === 'string' && raw.host.trim().length > 0) access.host = raw.host.trim();
+  if (typeof raw.authToken === 'string') access.authToken = raw.authToken;
+  if (Array.isArray(raw.allowedOrigins)) access.allowedOrigins = raw.allowedOrigins.filter((o): o is string => typeof o === 'string');
+  if (typeof raw.readOnly === 'boolean') access.readOnly = raw.readOnly;
+  return access;
+}
+
+// Flags and the environment win over the file, e.g. to start a one-off read-only instance
+function getServerAccess(): ServerAccessConfig {
+  const access = currentConfig.server;
+  const readOnlyEnv = process.env.CLAUDE_TASK_MONITOR_READ_ONLY;
+  return {
+    host: CLI_OPTIONS.host || process.env.CLAUDE_TASK_MONITOR_HOST || access.host,
+    authToken: process.env.CLAUDE_TASK_MONITOR_TOKEN || access.authToken,
+    allowedOrigins: access.allowedOrigins,
+    readOnly: readOnlyEnv ? readOnlyEnv === '1' || readOnlyEnv === 'true' : access.readOnly,
+  };
+}
+
+// What /api/config shows: the token itself never leaves the server
+function getPublicConfig(): Omit<MonitorConfig, 'server'> & { server: Omit<ServerAccessConfig, 'authToken'> & { authRequired: boolean }; overrides: Partial<Record<keyof MonitorConfig, string>> } {
+  const { authToken, ...access } = getServerAccess();
+  return { ...currentConfig, server: { ...access, authRequired: authToken.length > 0 }, overrides: CONFIG_OVERRIDE_FLAGS };
+}
+
+function validateTaskRoots(input: unknown): { valid: boolean; roots?: TaskRoot[]; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { valid: false, error: 'taskRoots must be a non-empty array' };
+  }
+  const roots: TaskRoot[] = [];
+  for (const entry of input) {
+    if (typeof entry !== 'object' || entry === null || typeof entry.path !== 'string' || entry.path.trim().length === 0) {
+      return { valid: false, error: 'Each task root needs a non-empty path' };
+    }
+    if (entry.label !== undefined && typeof entry.label !== 'string') {
+      return { valid: false, error: `Label of task root ${entry.path} must be a string` };
+    }
+    if (entry.projectDir !== undefined && typeof entry.projectDir !== 'string') {
+      return { valid: false, error: `projectDir of task root ${entry.path} must be a string` };
+    }
+    const rootPath = path.resolve(expandHome(entry.path.trim()));
+    if (roots.some(r => r.path === rootPath)) {
+      return { valid: false, error: `Duplicate task root: ${rootPath}` };
+    }
+    const root: TaskRoot = { path: rootPath };
+    if (entry.label && entry.label.trim()) root.label = entry.label.trim();
+    if (entry.projectDir && entry.projectDir.trim()) root.projectDir = entry.projectDir.trim();
+    roots.push(root);
+  }
+  return { valid: true, roots };
+}
+
+function validateProjectRules(input: unknown): { valid: boolean; rules?: ProjectRule[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { valid: false, error: 'projectRules must be an array' };
+  }
+  const rules: ProjectRule[] = [];
+  for (const entry of input) {
+    if (typeof entry !== 'object' || entry === null || typeof entry.projectDir !== 'string' || entry.projectDir.trim().length === 0) {
+      return { valid: false, error: 'Each project rule needs a non-empty projectDir' };
+    }
+    const hasListId = typeof entry.listId === 'string' && entry.listId.length > 0;
+    const hasPrefix = typeof entry.prefix === 'string' && entry.prefix.length > 0;
+    if (hasListId === hasPrefix) {
+      return { valid: false, error: `Project rule for ${entry.projectDir} needs exactly one of listId or prefix` };
+    }
+    rules.push(hasListId
+      ? { listId: entry.listId, projectDir: entry.projectDir.trim() }
+      : { prefix: entry.prefix, projectDir: entry.projectDir.trim() });
+  }
+  return { valid: true, rules };
+}
+
+// An exact listId rule wins over the longest matching prefix; lists no rule covers use
+// their root's projectDir, then the global one.
+function resolveProjectDir(listId: string, root: string | null): string {
+  const exact = currentConfig.projectRules.find(r => r.listId === listId);
+  if (exact) return exact.projectDir;
+  let best: ProjectRule | undefined;
+  for (const rule of currentConfig.projectRules) {
+    if (rule.prefix && listId.startsWith(rule.prefix) && (!best || rule.prefix.length > best.prefix!.length)) {
+      best = rule;
+    }
+  }
+  if (best) return best.projectDir;
+  return currentConfig.taskRoots.find(r => r.path === root)?.projectDir || currentConfig.projectDir;
+}
+
+function shellQuote(value: string): string {
+  return /^[A-Za-z0-9_./:=-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Kept in sync with renderCommandTemplate() in the dashboard script
+function renderCommandTemplate(template: string, vars: Record<string, string | undefined>): string {
+  return template
+    .replace(OPTIONAL_SEGMENT_PATTERN, (_, inner: string) => {
+      const names = [...inner.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]);
+      return names.every(name => vars[name]) ? inner : '';
+    })
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => vars[name] ? shellQuote(vars[name]!) : '');
+}
+
 function saveConfig(config: MonitorConfig): void {
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2) + '\n');
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify({ schemaVersion: CONFIG_SCHEMA_VERSION, ...config }, null, 2) + '\n');
 }
 
 function validateConfig(input: Record<string, unknown>): { valid: boolean; config?: MonitorConfig; error?: string } {
   const config: MonitorConfig = { ...currentConfig };
 
+  if ('server' in input) {
+    return { valid: false, error: `Server access settings can only be changed in ${CONFIG_FILE}` };
+  }
+
   if ('projectDir' in input) {
     if (typeof input.projectDir !== 'string' || input.projectDir.trim().length === 0) {
       return { valid: false, error: 'projectDir must be a non-empty string' };
@@ -102,8 +466,8 @@ function validateConfig(input: Record<string, unknown>): { valid: boolean; confi
 
   if ('pollInterval' in input) {
     const val = Number(input.pollInterval);
-    if (isNaN(val) || val < 500 || val > 60000) {
-      return { valid: false, error: 'pollInterval must be a number between 500 and 60000' };
+    if (!isValidPollInterval(val)) {
+      return { valid: false, error: 'pollInterval must be a whole number between 500 and 60000' };
     }
     config.pollInterval = val;
   }
@@ -120,18 +484,68 @@ function validateConfig(input: Record<string, unknown>): { valid: boolean; confi
     config.agentNames = input.agentNames.map((n: string) => n.trim());
   }
 
+  if ('tmuxLaunch' in input) {
+    if (typeof input.tmuxLaunch !== 'boolean') {
+      return { valid: false, error: 'tmuxLaunch must be true or false' };
+    }
+    config.tmuxLaunch = input.tmuxLaunch;
+  }
+
+  if ('commandTemplates' in input) {
+    const templates = input.commandTemplates;
+    if (typeof templates !== 'object' || templates === null || Array.isArray(templates)) {
+      return { valid: false, error: 'commandTemplates must be an object' };
+    }
+    config.commandTemplates = { ...config.commandTemplates };
+    for (const [key, value] of Object.entries(templates)) {
+      if (!COMMAND_TEMPLATE_KEYS.includes(key as CommandTemplateKey)) {
+        return { valid: false, error: `Unknown command template: ${key}; expected one of ${COMMAND_TEMPLATE_KEYS.join(', ')}` };
+      }
+      if (typeof value !== 'string') {
+        return { valid: false, error: `Command template ${key} must be a non-empty string` };
+      }
+      const error = validateCommandTemplate(key, value);
+      if (error) {
+        return { valid: false, error };
+      }
+      config.commandTemplates[key as CommandTemplateKey] = value.trim();
+    }
+  }
+
+  if ('taskRoots' in input) {
+    const result = validateTaskRoots(input.taskRoots);
+    if (!result.valid) {
+      return { valid: false, error: result.error };
+    }
+    config.taskRoots = result.roots!;
+  }
+
+  if ('projectRules' in input) {
+    const result = validateProjectRules(input.projectRules);
+    if (!result.valid) {
+      return { valid: false, error: result.error };
+    }
+    config.projectRules = result.rules!;
+  }
+
+  // The settings panel sends locked fields back unchanged; anything else is a real edit
+  for (const [key, flag] of Object.entries(CONFIG_OVERRIDE_FLAGS) as [keyof MonitorConfig, string][]) {
+    if (JSON.stringify(config[key]) !== JSON.stringify(currentConfig[key])) {
+      return { valid: false, error: `${key} is set by ${flag} for this run; restart without it or edit ${CONFIG_FILE}` };
+    }
+  }
+
   return { valid: true, config };
 }
 
 // === Configuration ===
-const TASKS_DIR = path.join(os.homedir(), ".claude", "tasks");
 const ARCHIVE_DIR = path.join(TASKS_DIR, ".archive");
-const OUTPUT_DIR = process.env.CLAUDE_TASK_MONITOR_OUTPUT || DATA_DIR;
+const OUTPUT_DIR = process.env.CLAUDE_TASK_MONITOR_OUTPUT || STATE_DIR;
 const DATA_FILE = path.join(OUTPUT_DIR, "task-monitor-data.json");
 const HTML_FILE = path.join(OUTPUT_DIR, "task-monitor.html");
 
 // Cache task data so we can archive it when Claude Code deletes the file
-const taskDataCache = new Map<string, { tasks: ClaudeTask[], lastModified: Date }>();
+const taskDataCache = new Map<string, { tasks: ClaudeTask[], lastModified: Date, root: string }>();
 
 // === Embedded CSS ===
 const CSS = `* { box-sizing: border-box; margin: 0; padding: 0; }
@@ -210,11 +624,14 @@ body {
 .control-bar .launch-danger-btn { background: #da3633; color: #fff; border: none; padding: 6px 14px; border-radius: 4px; font-size: 13px; font-weight: 500; cursor: pointer; font-family: inherit; white-space: nowrap; }
 .control-bar .launch-danger-btn:hover { background: #e55c59; }
 .control-bar .agent-name { color: #58a6ff; font-size: 13px; font-weight: 500; }
-.control-bar .reset-btn { color: #6e7681; background: none; border: none; font-size: 12px; cursor: pointer; font-family: inherit; padding: 4px 8px; }
-.control-bar .reset-btn:hover { color: #8b949e; }
 .control-bar .settings-btn { color: #8b949e; background: none; border: 1px solid #30363d; font-size: 12px; cursor: pointer; font-family: inherit; padding: 4px 10px; border-radius: 4px; }
 .control-bar .settings-btn:hover { color: #c9d1d9; border-color: #484f58; }
 .control-bar .spacer { flex: 1; }
+.control-bar .view-tabs { display: flex; border: 1px solid #30363d; border-radius: 4px; overflow: hidden; }
+.control-bar .view-tab { color: #8b949e; background: none; border: none; font-size: 12px; cursor: pointer; font-family: inherit; padding: 4px 10px; }
+.control-bar .view-tab + .view-tab { border-left: 1px solid #30363d; }
+.control-bar .view-tab:hover { color: #c9d1d9; }
+.control-bar .view-tab.active { color: #f0f6fc; background: #21262d; }
 .control-bar .stats { display: flex; gap: 16px; font-size: 13px; color: #6e7681; }
 .control-bar .stats .value { color: #f0f6fc; font-weight: 500; }
 .control-bar .stats .available { color: #58a6ff; }
@@ -239,6 +656,11 @@ body {
 .agents-bar .agent-id { color: #6e7681; font-size: 12px; }
 .agents-bar .agent-task { color: #c9d1d9; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; max-width: min(300px, 40vw); }
 .agents-bar .agent .spinner { color: #a371f7; }
+.sessions-bar { background: rgba(88, 166, 255, 0.06); border-color: rgba(88, 166, 255, 0.2); }
+.sessions-bar .label { color: #58a6ff; }
+.sessions-bar .agent { cursor: pointer; }
+.sessions-bar .agent-owner { color: #58a6ff; }
+.sessions-bar .agent:hover .agent-task { color: #f0f6fc; }
 
 .empty { color: #6e7681; padding: 40px; text-align: center; }
 .empty code { display: block; margin-top: 16px; color: #58a6ff; background: #161b22; padding: 12px 16px; border-radius: 6px; font-size: 14px; }
@@ -247,6 +669,8 @@ body {
 .task-list-header { display: flex; align-items: center; gap: 12px; margin-bottom: 8px; }
 .task-list-header h2 { font-size: 15px; font-weight: 600; color: #f0f6fc; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; max-width: 400px; }
 .task-list-header .meta { font-size: 13px; color: #6e7681; }
+.task-list-header .forecast { margin-left: auto; font-size: 12px; color: #c9d1d9; white-space: nowrap; cursor: help; }
+.task-list-header .forecast .range { color: #6e7681; }
 
 .status-summary { font-size: 13px; color: #6e7681; margin-left: 20px; margin-bottom: 8px; }
 .status-summary .active { color: #a371f7; }
@@ -319,6 +743,15 @@ body {
 .detail-verify .pass { color: #3fb950; font-weight: 500; }
 .detail-verify .fail { color: #f85149; font-weight: 500; }
 .detail-deps { font-size: 12px; color: #8b949e; }
+.detail-actions { display: flex; flex-wrap: wrap; gap: 8px; }
+.detail-actions button { background: #21262d; color: #c9d1d9; border: 1px solid #30363d; padding: 4px 12px; border-radius: 4px; font-size: 12px; font-family: inherit; cursor: pointer; }
+.detail-actions button:hover { border-color: #484f58; color: #f0f6fc; }
+.detail-history { font-size: 12px; color: #8b949e; }
+.detail-history .history-summary { color: #c9d1d9; margin-bottom: 6px; }
+.detail-history .history-event { padding: 1px 0; }
+.detail-history .when { color: #6e7681; margin-right: 10px; }
+.detail-history .to { color: #c9d1d9; }
+.detail-history .gap { color: #484f58; margin-left: 6px; }
 
 .commands { border-top: 1px solid #30363d; padding-top: 20px; margin-top: 20px; }
 .commands h3 { font-size: 14px; font-weight: 600; margin-bottom: 12px; color: #f0f6fc; }
@@ -328,6 +761,190 @@ body {
 
 .footer { color: #6e7681; font-size: 13px; margin-top: 20px; }
 
+.list-warnings { background: rgba(210, 153, 34, 0.08); border: 1px solid rgba(210, 153, 34, 0.3); border-radius: 6px; padding: 10px 14px; margin: 0 0 12px 0; font-size: 12px; }
+.list-warnings-title { color: #d29922; font-weight: 600; margin-bottom: 6px; }
+.list-warning { color: #c9d1d9; padding: 1px 0; }
+.list-warning .kind { display: inline-block; min-width: 110px; color: #d29922; }
+.list-warning.cycle .kind, .list-warning.deadlock .kind { color: #f85149; }
+.invalid-files { background: rgba(248, 81, 73, 0.08); border: 1px solid rgba(248, 81, 73, 0.4); border-radius: 6px; padding: 10px 14px; margin: 0 0 12px 0; font-size: 12px; }
+.invalid-files-title { color: #f85149; font-weight: 600; margin-bottom: 6px; display: flex; gap: 12px; }
+.invalid-files-title .hint { font-weight: normal; color: #6e7681; }
+.invalid-file { color: #c9d1d9; padding: 1px 0; }
+.invalid-file .file { display: inline-block; min-width: 110px; margin-right: 10px; color: #f85149; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+.attention { background: rgba(248, 81, 73, 0.06); border: 1px solid rgba(248, 81, 73, 0.3); border-radius: 6px; padding: 10px 14px; margin: 0 0 12px 0; font-size: 12px; }
+.attention-title { color: #f85149; font-weight: 600; margin-bottom: 6px; display: flex; gap: 12px; }
+.attention-title .filter-clear { font-weight: normal; }
+.attention-item { display: flex; align-items: center; gap: 10px; color: #c9d1d9; padding: 1px 0; }
+.attention-item .kind { min-width: 80px; color: #d29922; }
+.attention-item.failed .kind { color: #f85149; }
+.attention-item .attention-task { cursor: pointer; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; max-width: 420px; }
+.attention-item .attention-task:hover { color: #58a6ff; }
+.attention-item .reason { color: #8b949e; }
+.attention-item .attention-review { margin-left: auto; color: #58a6ff; cursor: pointer; background: none; border: 1px solid #30363d; border-radius: 4px; font: inherit; font-size: 11px; padding: 1px 8px; }
+.attention-item span.attention-review { border: none; }
+.conflicts { background: rgba(240, 136, 62, 0.06); border: 1px solid rgba(240, 136, 62, 0.3); border-radius: 6px; padding: 10px 14px; margin: 0 0 12px 0; font-size: 12px; }
+.conflicts-title { color: #f0883e; font-weight: 600; margin-bottom: 6px; }
+.conflict { display: flex; gap: 10px; color: #c9d1d9; padding: 1px 0; }
+.conflict .kind { min-width: 110px; color: #f0883e; }
+.conflict.low, .conflict.low .kind { color: #6e7681; }
+.conflict .conflict-tasks { white-space: nowrap; }
+.conflict .conflict-tasks span { cursor: pointer; }
+.conflict .conflict-tasks span:hover { color: #58a6ff; }
+.conflict .conflict-files { color: #8b949e; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.prompt-panel { border: 1px solid #21262d; border-radius: 6px; padding: 8px 14px; margin: 0 0 12px 0; }
+.prompt-header { display: flex; align-items: center; font-size: 12px; color: #8b949e; }
+.prompt-title { cursor: pointer; display: flex; align-items: center; gap: 6px; font-weight: 600; }
+.prompt-title .chevron { font-size: 10px; color: #484f58; transition: transform 0.2s ease; }
+.prompt-title .chevron.expanded { transform: rotate(90deg); }
+.prompt-edit { margin-left: auto; color: #58a6ff; cursor: pointer; }
+.prompt-body { margin-top: 8px; max-height: 320px; overflow-y: auto; }
+.prompt-body.muted { color: #6e7681; font-size: 12px; }
+.prompt-editor { width: 100%; min-height: 240px; margin-top: 8px; background: #0d1117; border: 1px solid #30363d; border-radius: 4px; color: #c9d1d9; padding: 8px 10px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; line-height: 1.5; resize: vertical; }
+.prompt-editor:focus { outline: none; border-color: #58a6ff; }
+.prompt-panel .settings-actions { margin-top: 8px; }
+.prompt-add { font-size: 12px; color: #6e7681; margin: 0 0 8px 0; }
+.prompt-add span { cursor: pointer; }
+.prompt-add span:hover { color: #58a6ff; }
+.detail-commits { font-size: 12px; }
+.detail-commits.muted, .commit-diff.muted { color: #6e7681; font-size: 12px; }
+.commit { display: flex; align-items: center; gap: 8px; padding: 2px 0; cursor: pointer; color: #c9d1d9; }
+.commit:hover .commit-subject { color: #58a6ff; }
+.commit .chevron { width: 12px; font-size: 10px; color: #484f58; transition: transform 0.2s ease; }
+.commit .chevron.expanded { transform: rotate(90deg); }
+.commit .hash { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; color: #d29922; }
+.commit .commit-subject { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.commit .commit-meta { margin-left: auto; color: #6e7681; white-space: nowrap; font-size: 11px; }
+pre.commit-diff { background: #0d1117; border: 1px solid #21262d; border-radius: 4px; padding: 8px; margin: 4px 0 8px 0; font-size: 11px; line-height: 1.45; max-height: 480px; overflow: auto; color: #8b949e; }
+.commit-diff .file { color: #f0f6fc; font-weight: 600; }
+.commit-diff .hunk { color: #a371f7; }
+.commit-diff .add { color: #3fb950; }
+.commit-diff .del { color: #f85149; }
+.detail-conflict { font-size: 12px; color: #8b949e; padding: 1px 0; }
+.detail-conflict.high { color: #f0883e; }
+.detail-conflict span { cursor: pointer; text-decoration: underline; }
+.verify-badge { font-size: 11px; padding: 0 6px; border-radius: 8px; border: 1px solid; white-space: nowrap; }
+.verify-badge.verified { color: #3fb950; border-color: rgba(63, 185, 80, 0.4); }
+.verify-badge.unverified { color: #d29922; border-color: rgba(210, 153, 34, 0.4); }
+.verify-badge.failed { color: #f85149; border-color: rgba(248, 81, 73, 0.5); }
+
+.filter-bar { display: flex; flex-wrap: wrap; align-items: center; gap: 6px 12px; margin-bottom: 16px; font-size: 12px; }
+.filter-bar #task-search { flex: 1 1 260px; background: #0d1117; color: #c9d1d9; border: 1px solid #30363d; padding: 6px 10px; border-radius: 4px; font-size: 13px; font-family: inherit; }
+.filter-bar #task-search:focus { outline: none; border-color: #58a6ff; }
+.filter-group { display: flex; flex-wrap: wrap; align-items: center; gap: 4px; }
+.filter-label { color: #6e7681; margin-right: 2px; }
+.filter-chip { color: #8b949e; border: 1px solid #30363d; border-radius: 10px; padding: 1px 8px; cursor: pointer; user-select: none; }
+.filter-chip:hover { color: #c9d1d9; border-color: #484f58; }
+.filter-chip.active { color: #0d1117; background: #58a6ff; border-color: #58a6ff; }
+.filter-chip .count { color: #6e7681; margin-left: 4px; }
+.filter-chip.active .count { color: #0d1117; }
+.filter-clear { color: #f85149; cursor: pointer; }
+.filter-empty { color: #6e7681; font-size: 13px; padding: 8px 16px; }
+
+.graph-legend { display: flex; gap: 16px; font-size: 12px; color: #8b949e; margin: 0 0 8px 0; }
+.graph-legend .available { color: #58a6ff; }
+.graph-legend .blocked { color: #d29922; }
+.graph-legend .in_progress { color: #a371f7; }
+.graph-legend .completed { color: #3fb950; }
+.graph-legend .critical { color: #f0883e; }
+.graph-critical { font-size: 12px; color: #f0883e; margin-bottom: 12px; }
+
+.overview-summary { display: flex; flex-wrap: wrap; gap: 24px; font-size: 13px; color: #8b949e; margin-bottom: 16px; }
+.overview-summary .value { color: #f0f6fc; font-weight: 600; margin-right: 4px; }
+.overview-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 12px; }
+.overview-card { display: flex; flex-direction: column; gap: 8px; background: #161b22; border: 1px solid #30363d; border-radius: 6px; padding: 12px 14px; font-size: 12px; cursor: pointer; }
+.overview-card:hover { border-color: #484f58; }
+.overview-card.current { border-color: #58a6ff; }
+.overview-head { display: flex; align-items: baseline; gap: 8px; }
+.overview-name { flex: 1; min-width: 0; color: #f0f6fc; font-size: 14px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.overview-updated { color: #6e7681; white-space: nowrap; }
+.overview-progress { display: flex; height: 6px; background: #21262d; border-radius: 3px; overflow: hidden; }
+.overview-progress .completed { background: #3fb950; }
+.overview-progress .in_progress { background: #a371f7; }
+.overview-progress .available { background: #58a6ff; }
+.overview-progress .blocked { background: #d29922; }
+.overview-counts, .overview-agents, .overview-warnings { display: flex; flex-wrap: wrap; gap: 4px 10px; color: #6e7681; }
+.overview-counts .done { color: #3fb950; }
+.overview-counts .active { color: #a371f7; }
+.overview-counts .available { color: #58a6ff; }
+.overview-counts .blocked { color: #d29922; }
+.overview-agents .owner { color: #58a6ff; }
+.overview-warnings .warn { color: #d29922; }
+.overview-warnings .error { color: #f85149; }
+
+.analytics-summary { display: flex; flex-wrap: wrap; gap: 24px; font-size: 13px; color: #8b949e; margin-bottom: 16px; }
+.analytics-summary .value { color: #f0f6fc; font-weight: 600; margin-right: 4px; }
+.analytics-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px; margin-top: 16px; }
+.analytics-panel { border: 1px solid #21262d; border-radius: 6px; padding: 12px 14px; }
+.analytics-panel h3 { font-size: 13px; font-weight: 600; color: #f0f6fc; margin-bottom: 10px; }
+.analytics-panel .hint { font-size: 11px; color: #6e7681; margin-top: 8px; }
+.burndown .axis { stroke: #30363d; }
+.burndown .axis-label { fill: #6e7681; font-size: 10px; font-family: inherit; }
+.burndown .line { fill: none; stroke-width: 2; }
+.burndown .line.total { stroke: #484f58; stroke-dasharray: 4 3; stroke-width: 1; }
+.burndown .line.remaining { stroke: #58a6ff; }
+.burndown .line.active { stroke: #a371f7; stroke-width: 1.5; }
+.bar-row { display: flex; align-items: center; gap: 8px; font-size: 12px; margin: 3px 0; }
+.bar-row .bar-label { width: 90px; color: #8b949e; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.bar-row .bar { flex: 1; height: 10px; background: #161b22; border-radius: 2px; overflow: hidden; }
+.bar-row .bar span { display: block; height: 100%; background: #58a6ff; }
+.bar-row .bar-value { min-width: 110px; color: #c9d1d9; }
+
+.board-toolbar { display: flex; align-items: center; gap: 8px; font-size: 12px; color: #6e7681; margin-bottom: 12px; }
+.board-toolbar select { background: #0d1117; color: #c9d1d9; border: 1px solid #30363d; padding: 3px 6px; border-radius: 4px; font-size: 12px; font-family: inherit; }
+.board { display: grid; grid-template-columns: 180px repeat(4, minmax(160px, 1fr)); border: 1px solid #21262d; border-radius: 6px; overflow: hidden; }
+.board-head { background: #161b22; border-bottom: 1px solid #30363d; padding: 8px 10px; font-size: 12px; font-weight: 600; color: #8b949e; }
+.board-head.blocked { color: #d29922; }
+.board-head.available { color: #58a6ff; }
+.board-head.in_progress { color: #a371f7; }
+.board-head.completed { color: #3fb950; }
+.board-head .count { color: #6e7681; font-weight: 400; margin-left: 6px; }
+.board-lane { padding: 10px; border-bottom: 1px solid #21262d; font-size: 12px; }
+.board-lane .lane-name { color: #f0f6fc; font-weight: 600; margin-bottom: 4px; word-break: break-word; }
+.board-lane .lane-progress { height: 4px; background: #21262d; border-radius: 2px; overflow: hidden; margin: 6px 0; }
+.board-lane .lane-progress div { height: 100%; background: #3fb950; }
+.board-lane .lane-counts { color: #6e7681; line-height: 1.6; }
+.board-lane .lane-counts .blocked { color: #d29922; }
+.board-lane .lane-counts .available { color: #58a6ff; }
+.board-lane .lane-counts .active { color: #a371f7; }
+.board-cell { padding: 6px; border-bottom: 1px solid #21262d; border-left: 1px solid #21262d; display: flex; flex-direction: column; gap: 6px; min-height: 48px; }
+.board-card { background: #161b22; border: 1px solid #30363d; border-radius: 4px; padding: 6px 8px; font-size: 12px; cursor: pointer; }
+.board-card:hover { border-color: #484f58; }
+.board-card .card-title { color: #c9d1d9; overflow: hidden; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; }
+.board-card .card-title .id { color: #6e7681; margin-right: 4px; }
+.board-card .card-meta { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 4px; color: #6e7681; font-size: 11px; }
+.board-card .card-meta .owner { color: #58a6ff; }
+.board-card .card-meta .risk-high { color: #f85149; }
+.board-card .card-meta .risk-medium { color: #d29922; }
+.board-card .card-meta .risk-low { color: #3fb950; }
+.graph-scroll { overflow: auto; border: 1px solid #21262d; border-radius: 6px; background: #0d1117; }
+.dep-graph { display: block; }
+.dep-graph .graph-edge { fill: none; stroke: #30363d; stroke-width: 1.5; }
+.dep-graph .graph-edge.critical { stroke: #f0883e; stroke-width: 2.5; }
+.dep-graph .graph-node { cursor: pointer; }
+.dep-graph .graph-node rect { fill: #161b22; stroke: #30363d; stroke-width: 1.5; }
+.dep-graph .graph-node:hover rect { fill: #21262d; }
+.dep-graph .graph-node text { fill: #c9d1d9; font-size: 12px; font-family: inherit; }
+.dep-graph .graph-node text.sub { fill: #6e7681; font-size: 10px; }
+.dep-graph .graph-node.available rect { stroke: #58a6ff; }
+.dep-graph .graph-node.blocked rect { stroke: #d29922; }
+.dep-graph .graph-node.in_progress rect { stroke: #a371f7; fill: rgba(163, 113, 247, 0.08); }
+.dep-graph .graph-node.completed rect { stroke: #3fb950; }
+.dep-graph .graph-node.completed text { fill: #6e7681; }
+.dep-graph .graph-node.critical rect { stroke-width: 3; }
+
+.archive-item { border-bottom: 1px solid #21262d; }
+.archive-item:first-child { border-top: 1px solid #21262d; }
+.archive-row { display: flex; align-items: center; gap: 10px; padding: 10px 12px 10px 16px; font-size: 14px; cursor: pointer; user-select: none; }
+.archive-row:hover { background-color: rgba(255,255,255,0.04); }
+.archive-row .chevron { width: 16px; text-align: center; font-size: 11px; color: #484f58; transition: transform 0.2s ease; flex-shrink: 0; }
+.archive-row .chevron.expanded { transform: rotate(90deg); color: #8b949e; }
+.archive-row .archive-id { flex: 1; color: #f0f6fc; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; min-width: 0; }
+.archive-row .archive-date { color: #6e7681; font-size: 13px; }
+.archive-row .archive-counts { color: #3fb950; font-size: 13px; }
+.archive-row .restore-btn { color: #58a6ff; background: none; border: 1px solid rgba(88,166,255,0.3); font-size: 12px; cursor: pointer; font-family: inherit; padding: 3px 10px; border-radius: 4px; }
+.archive-row .restore-btn:hover { border-color: #58a6ff; }
+.archive-tasks { padding-left: 26px; background: #0d1117; }
+
 .available-label { color: #58a6ff; font-size: 0.75rem; font-weight: 500; margin-left: 12px; cursor: pointer; }
 .available-label:hover { text-decoration: underline; }
 
@@ -368,18 +985,23 @@ body {
 
 .settings-overlay { display: none; position: fixed; top: 0; left: 0; right: 0; bottom: 0; background: rgba(0,0,0,0.6); z-index: 2000; justify-content: center; align-items: center; }
 .settings-overlay.open { display: flex; }
-.settings-panel { background: #161b22; border: 1px solid #30363d; border-radius: 8px; padding: 24px; width: 480px; max-width: 90vw; }
+.settings-panel { background: #161b22; border: 1px solid #30363d; border-radius: 8px; padding: 24px; width: 640px; max-width: 90vw; max-height: 90vh; overflow-y: auto; }
 .settings-panel h2 { font-size: 16px; font-weight: 600; color: #f0f6fc; margin-bottom: 20px; }
 .settings-field { margin-bottom: 16px; }
 .settings-field label { display: block; font-size: 13px; color: #8b949e; margin-bottom: 6px; }
 .settings-field input, .settings-field textarea { width: 100%; background: #0d1117; color: #c9d1d9; border: 1px solid #30363d; padding: 8px 10px; border-radius: 4px; font-size: 13px; font-family: inherit; }
 .settings-field input:focus, .settings-field textarea:focus { outline: none; border-color: #58a6ff; }
 .settings-field textarea { resize: vertical; min-height: 60px; }
+.settings-field .template-grid { display: grid; grid-template-columns: auto 1fr; gap: 6px 10px; align-items: center; font-size: 12px; color: #8b949e; }
+.settings-field .template-grid input { font-size: 12px; padding: 6px 8px; }
+.settings-field .checkbox-label { display: flex; align-items: center; gap: 8px; cursor: pointer; }
+.settings-field input[type="checkbox"] { width: auto; margin: 0; }
 .settings-field .hint { font-size: 11px; color: #6e7681; margin-top: 4px; }
 .settings-actions { display: flex; gap: 10px; justify-content: flex-end; margin-top: 20px; }
 .settings-actions button { padding: 6px 16px; border-radius: 4px; font-size: 13px; font-family: inherit; cursor: pointer; border: none; }
 .settings-actions .save-btn { background: #238636; color: #fff; }
 .settings-actions .save-btn:hover { background: #2ea043; }
+.settings-actions .save-btn:disabled { background: #21262d; color: #6e7681; cursor: not-allowed; }
 .settings-actions .cancel-btn { background: #21262d; color: #c9d1d9; border: 1px solid #30363d; }
 .settings-actions .cancel-btn:hover { background: #30363d; }
 .settings-status { font-size: 12px; margin-top: 12px; min-height: 18px; }
@@ -391,18 +1013,84 @@ const JS = `let MONITOR_DATA = window.__MONITOR_DATA__ || null;
 let TASK_DATA = MONITOR_DATA ? MONITOR_DATA.taskLists : [];
 let fetchFailed = false;
 
+let TMUX_LAUNCH = false;
+let LAUNCHED_SESSIONS = [];
 let AGENT_NAMES = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'omicron', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega'];
 
 let pollInterval = 2000;
 let pollTimer = null;
+let eventSource = null;
+let streamConnected = false;
+const STREAM_RECONNECT_MS = 5000;
+// Keyed by listId + '/' + taskId, since task IDs repeat across lists
 var expandedTasks = new Set();
 
+const VIEW_MODES = [['overview', 'Overview'], ['tasks', 'List'], ['board', 'Board'], ['graph', 'Graph'], ['analytics', 'Analytics'], ['archive', 'Archive']];
+let viewMode = localStorage.getItem('viewMode') || 'tasks';
+let ARCHIVES = null;
+let SELECTED_ARCHIVE = null;
+let archiveError = '';
+var expandedArchiveTasks = new Set();
+var taskHistoryCache = {};
+// Commits and diffs are kept across updates; git history rarely changes after a task completes
+var taskCommitsCache = {};
+var commitDiffCache = {};
+var expandedCommits = new Set();
+var promptCache = {};
+// List whose prompt.md is open in the editor, the version it was opened at, and the unsaved text
+var promptEditing = null;
+var promptEditVersion = null;
+var promptDraft = '';
+let ANALYTICS = null;
+let analyticsKey = null;
+let analyticsError = '';
+
+function updateFooter() {
+  const footer = document.querySelector('.footer');
+  if (!footer) return;
+  footer.textContent = streamConnected
+    ? 'Real-time updates (live stream)'
+    : 'Real-time updates (polling every ' + (pollInterval / 1000) + 's)';
+}
+
+function startPolling() {
+  if (!pollTimer) pollTimer = setInterval(() => { fetchData(); }, pollInterval);
+  updateFooter();
+}
+
+function stopPolling() {
+  if (pollTimer) { clearInterval(pollTimer); pollTimer = null; }
+  updateFooter();
+}
+
 function restartPolling(interval) {
   pollInterval = interval;
-  if (pollTimer) clearInterval(pollTimer);
-  pollTimer = setInterval(() => { fetchData(); }, pollInterval);
-  const footer = document.querySelector('.footer');
-  if (footer) footer.textContent = 'Real-time updates (polling every ' + (pollInterval / 1000) + 's)';
+  // Only reschedule an active fallback poller; the live stream doesn't need one
+  if (pollTimer) { clearInterval(pollTimer); pollTimer = null; startPolling(); }
+  updateFooter();
+}
+
+// Subscribe to server-pushed updates; fall back to polling while the stream is down
+function connectEvents() {
+  if (typeof EventSource === 'undefined' || location.protocol === 'file:') { startPolling(); return; }
+  const source = new EventSource('/api/events');
+  eventSource = source;
+  source.addEventListener('open', () => {
+    streamConnected = true;
+    stopPolling();
+  });
+  source.addEventListener('update', (e) => {
+    try { applyMonitorData(JSON.parse(e.data)); } catch (err) { /* ignore malformed frame */ }
+  });
+  source.addEventListener('error', () => {
+    streamConnected = false;
+    startPolling();
+    // EventSource retries on its own unless the server refused the stream outright
+    if (source.readyState === EventSource.CLOSED) {
+      eventSource = null;
+      setTimeout(connectEvents, STREAM_RECONNECT_MS);
+    }
+  });
 }
 
 async function loadSettings() {
@@ -416,6 +1104,8 @@ async function loadSettings() {
     if (config.pollInterval && config.pollInterval >= 500 && config.pollInterval <= 60000) {
       restartPolling(config.pollInterval);
     }
+    TMUX_LAUNCH = config.tmuxLaunch === true && !(config.server && config.server.readOnly);
+    if (TMUX_LAUNCH) loadLaunchedSessions();
   } catch (e) {
     // Settings API not available, use defaults
   }
@@ -428,7 +1118,22 @@ function openSettings() {
     document.getElementById('settings-projectDir').value = config.projectDir || '';
     document.getElementById('settings-pollInterval').value = config.pollInterval || 2000;
     document.getElementById('settings-agentNames').value = (config.agentNames || []).join(', ');
-    document.getElementById('settings-status').textContent = '';
+    document.getElementById('settings-tmuxLaunch').checked = config.tmuxLaunch === true;
+    document.getElementById('settings-taskRoots').value = formatTaskRoots(config.taskRoots);
+    document.getElementById('settings-projectRules').value = formatProjectRules(config.projectRules);
+    for (const key of COMMAND_TEMPLATE_KEYS) {
+      document.getElementById('settings-template-' + key).value = (config.commandTemplates || {})[key] || '';
+    }
+    // Fields set by a command-line flag can't be changed from here for this run
+    const overrides = config.overrides || {};
+    for (const key of ['projectDir', 'pollInterval', 'taskRoots']) {
+      const input = document.getElementById('settings-' + key);
+      input.disabled = !!overrides[key];
+      input.title = overrides[key] ? 'Set by ' + overrides[key] + ' for this run' : '';
+    }
+    const readOnly = !!(config.server && config.server.readOnly);
+    document.querySelector('.settings-actions .save-btn').disabled = readOnly;
+    document.getElementById('settings-status').textContent = readOnly ? 'Read-only mode: settings can only be changed in monitor-config.json' : '';
     document.getElementById('settings-status').className = 'settings-status';
     overlay.classList.add('open');
   }).catch(() => {
@@ -449,12 +1154,19 @@ async function saveSettings() {
   const pollIntervalVal = parseInt(document.getElementById('settings-pollInterval').value, 10);
   const agentNamesRaw = document.getElementById('settings-agentNames').value;
   const agentNames = agentNamesRaw.split(',').map(s => s.trim()).filter(s => s.length > 0);
+  const tmuxLaunch = document.getElementById('settings-tmuxLaunch').checked;
+  const taskRoots = parseTaskRoots(document.getElementById('settings-taskRoots').value);
+  const projectRules = parseProjectRules(document.getElementById('settings-projectRules').value);
+  const commandTemplates = {};
+  for (const key of COMMAND_TEMPLATE_KEYS) {
+    commandTemplates[key] = document.getElementById('settings-template-' + key).value.trim();
+  }
 
   try {
     const resp = await fetch('/api/config', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ projectDir, pollInterval: pollIntervalVal, agentNames })
+      body: JSON.stringify({ projectDir, pollInterval: pollIntervalVal, agentNames, tmuxLaunch, commandTemplates, taskRoots, projectRules })
     });
     const result = await resp.json();
     if (!resp.ok) {
@@ -463,12 +1175,9 @@ async function saveSettings() {
       return;
     }
     // Apply changes immediately
-    if (result.agentNames) {
-      AGENT_NAMES = result.agentNames;
-      // Reset agent counter so names start from the beginning of the new list
-      localStorage.setItem('agentCount', '0');
-    }
+    if (result.agentNames) AGENT_NAMES = result.agentNames;
     if (result.pollInterval) restartPolling(result.pollInterval);
+    TMUX_LAUNCH = result.tmuxLaunch === true;
     statusEl.textContent = 'Saved';
     statusEl.className = 'settings-status success';
     setTimeout(() => closeSettings(), 800);
@@ -480,45 +1189,61 @@ async function saveSettings() {
   }
 }
 
+function applyMonitorData(data) {
+  MONITOR_DATA = data;
+  TASK_DATA = MONITOR_DATA.taskLists;
+  fetchFailed = false;
+  // Expanded timelines are re-fetched on the next render
+  taskHistoryCache = {};
+  if (TMUX_LAUNCH && Date.now() - sessionsLoadedAt > SESSIONS_REFRESH_MS) loadLaunchedSessions();
+  render();
+  // A list disappearing from the tasks dir usually means a new archive
+  if (viewMode === 'archive') loadArchives();
+  if (viewMode === 'analytics') loadAnalytics();
+  if (viewMode === 'tasks' && promptCache[getSelectedListId()] !== undefined) loadPrompt(getSelectedListId());
+}
+
 async function fetchData() {
   try {
     const cacheBuster = Date.now();
     const response = await fetch('task-monitor-data.json?_=' + cacheBuster, { cache: 'no-store' });
     if (!response.ok) throw new Error('Failed: ' + response.status);
     const data = await response.json();
-    MONITOR_DATA = data;
-    TASK_DATA = MONITOR_DATA.taskLists;
-    fetchFailed = false;
-    render();
+    applyMonitorData(data);
   } catch (err) {
     fetchFailed = true;
     if (MONITOR_DATA && TASK_DATA.length > 0) render();
   }
 }
 
+// Preview of the next free name; launches lease a name from the server instead (leaseAgentName)
 function getNextAgentName() {
-  const count = parseInt(localStorage.getItem('agentCount') || '0', 10);
-  return count < AGENT_NAMES.length ? AGENT_NAMES[count] : 'agent-' + (count + 1);
-}
-
-function incrementAgentCount() {
-  const count = parseInt(localStorage.getItem('agentCount') || '0', 10);
-  localStorage.setItem('agentCount', String(count + 1));
+  const registry = MONITOR_DATA && MONITOR_DATA.agentRegistry;
+  return registry ? registry.next.agent : AGENT_NAMES[0];
 }
 
-function resetAgentCount() { localStorage.setItem('agentCount', '0'); render(); }
-
 function getNextCodexName() {
-  const count = parseInt(localStorage.getItem('codexCount') || '0', 10);
-  return 'codex-' + (count < AGENT_NAMES.length ? AGENT_NAMES[count] : 'agent-' + (count + 1));
+  const registry = MONITOR_DATA && MONITOR_DATA.agentRegistry;
+  return registry ? registry.next.codex : 'codex-' + AGENT_NAMES[0];
 }
 
-function incrementCodexCount() {
-  const count = parseInt(localStorage.getItem('codexCount') || '0', 10);
-  localStorage.setItem('codexCount', String(count + 1));
+async function leaseAgentName(pool, taskListId, taskId) {
+  try {
+    const resp = await fetch('/api/agents/lease', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pool, listId: taskListId, taskId: taskId || null })
+    });
+    if (resp.ok) return (await resp.json()).name;
+  } catch (err) {
+    // Registry not reachable (dashboard opened from disk)
+  }
+  return pool === 'codex' ? getNextCodexName() : getNextAgentName();
 }
 
-function resetCodexCount() { localStorage.setItem('codexCount', '0'); render(); }
+function releaseAgentName(name) {
+  fetch('/api/agents/' + encodeURIComponent(name) + '/release', { method: 'POST' }).catch(() => {});
+}
 
 function getCodeMode() {
   return localStorage.getItem('codeMode') || 'cda';
@@ -526,80 +1251,337 @@ function getCodeMode() {
 
 function setCodeMode(mode) {
   localStorage.setItem('codeMode', mode);
+  render();
 }
 
 function showToast(message, command) {
   const toast = document.getElementById('toast');
-  toast.innerHTML = message + '<code>' + escapeHtml(command) + '</code>';
+  toast.innerHTML = message + (command ? '<code>' + escapeHtml(command) + '</code>' : '');
   toast.classList.add('show');
   setTimeout(() => toast.classList.remove('show'), 4000);
 }
 
 function switchTaskList(taskListId) {
   localStorage.setItem('selectedTaskList', taskListId);
-  location.hash = taskListId;
-  render();
+  setTaskFilters(getTaskFilters(), taskListId);
+  if (viewMode === 'analytics') loadAnalytics();
 }
 
 function getSelectedListId() {
-  if (location.hash && location.hash.length > 1) return decodeURIComponent(location.hash.slice(1));
+  const listPart = location.hash.slice(1).split('?')[0];
+  if (listPart) return decodeURIComponent(listPart);
   const stored = localStorage.getItem('selectedTaskList');
   if (stored) return stored;
   return TASK_DATA.length > 0 ? TASK_DATA[0].id : '';
 }
 
-function buildNextAvailableCommand(taskListId) {
-  const projectDir = MONITOR_DATA.projectDir;
-  return "cd " + projectDir + " && ./scripts/cda-agent.sh --task-list " + taskListId + " --agent $(tmux display-message -p '#S')";
+// Search and filters live in the URL hash after the list ID, e.g.
+// #my-list?q=auth&status=pending&owner=alpha&scope=all, so a filtered view can be shared
+const FILTER_FACETS = [['status','Status'],['state','State'],['verification','Verification'],['owner','Owner'],['wave','Wave'],['phase','Phase'],['epic','Epic'],['riskLevel','Risk'],['swarmLane','Lane'],['feature','Feature']];
+
+function getTaskFilters() {
+  const hash = location.hash.slice(1);
+  const queryStart = hash.indexOf('?');
+  const params = new URLSearchParams(queryStart === -1 ? '' : hash.slice(queryStart + 1));
+  const filters = { q: params.get('q') || '', scope: params.get('scope') === 'all' ? 'all' : 'list', facets: {} };
+  for (const [facet] of FILTER_FACETS) {
+    const values = params.getAll(facet);
+    if (values.length > 0) filters.facets[facet] = values;
+  }
+  return filters;
+}
+
+function hasActiveFilters(filters) {
+  return filters.q.trim().length > 0 || Object.keys(filters.facets).length > 0;
+}
+
+function setTaskFilters(filters, taskListId) {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  for (const [facet] of FILTER_FACETS) {
+    for (const value of filters.facets[facet] || []) params.append(facet, value);
+  }
+  if (filters.scope === 'all') params.set('scope', 'all');
+  const query = params.toString();
+  const listId = taskListId !== undefined ? taskListId : getSelectedListId();
+  history.replaceState(null, '', '#' + encodeURIComponent(listId) + (query ? '?' + query : ''));
+  render();
+}
+
+function setSearchQuery(q) {
+  const filters = getTaskFilters();
+  filters.q = q;
+  setTaskFilters(filters);
+}
+
+function toggleFacet(facet, value) {
+  const filters = getTaskFilters();
+  const values = filters.facets[facet] || [];
+  filters.facets[facet] = values.includes(value) ? values.filter(v => v !== value) : values.concat([value]);
+  if (filters.facets[facet].length === 0) delete filters.facets[facet];
+  setTaskFilters(filters);
+}
+
+function toggleFilterScope() {
+  const filters = getTaskFilters();
+  filters.scope = filters.scope === 'all' ? 'list' : 'all';
+  setTaskFilters(filters);
+}
+
+function clearTaskFilters() {
+  setTaskFilters({ q: '', scope: getTaskFilters().scope, facets: {} });
+}
+
+// state is only set for pending tasks: available, or blocked by an unfinished or missing task;
+// verification only for completed ones
+function getTaskFacetValue(task, facet, taskList) {
+  if (facet === 'status') return task.status;
+  if (facet === 'state') {
+    if (task.status !== 'pending') return null;
+    return getBlockerStatus(task, taskList.tasks).isBlocked ? 'blocked' : 'available';
+  }
+  if (facet === 'verification') {
+    const verification = getTaskVerification(taskList.id, task.id);
+    return verification ? verification.state : null;
+  }
+  if (facet === 'owner') return task.owner || null;
+  const value = task.metadata ? task.metadata[facet] : undefined;
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+// Values within a facet are alternatives; facets and search words must all match
+function taskMatchesFilters(task, taskList, filters) {
+  for (const facet of Object.keys(filters.facets)) {
+    if (!filters.facets[facet].includes(getTaskFacetValue(task, facet, taskList))) return false;
+  }
+  const words = filters.q.toLowerCase().split(' ').filter(w => w.length > 0);
+  if (words.length === 0) return true;
+  const report = task.metadata && task.metadata.completionReport;
+  const text = [task.subject, task.activeForm, task.description, report && report.summary].filter(Boolean).join('\\n').toLowerCase();
+  return words.every(word => text.includes(word));
+}
+
+function buildFilterBarHtml(scopeLists, filters) {
+  const counts = {};
+  for (const list of scopeLists) {
+    for (const task of list.tasks) {
+      for (const [facet] of FILTER_FACETS) {
+        const value = getTaskFacetValue(task, facet, list);
+        if (value === null) continue;
+        if (!counts[facet]) counts[facet] = {};
+        counts[facet][value] = (counts[facet][value] || 0) + 1;
+      }
+    }
+  }
+
+  let h = '<div class="filter-bar"><input type="search" id="task-search" placeholder="Search subject, description, report..." value="' + escapeHtml(filters.q).replace(/"/g, '&quot;') + '" oninput="setSearchQuery(this.value)">';
+  h += '<span class="filter-chip' + (filters.scope === 'all' ? ' active' : '') + '" onclick="toggleFilterScope()">all lists</span>';
+  if (hasActiveFilters(filters)) h += '<span class="filter-clear" onclick="clearTaskFilters()">clear filters</span>';
+  for (const [facet, label] of FILTER_FACETS) {
+    const values = Object.assign({}, counts[facet]);
+    // Keep selected values visible (with a zero count) so they can still be turned off
+    for (const value of filters.facets[facet] || []) {
+      if (!(value in values)) values[value] = 0;
+    }
+    const keys = Object.keys(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    if (keys.length === 0) continue;
+    h += '<div class="filter-group"><span class="filter-label">' + label + '</span>';
+    for (const value of keys) {
+      const active = (filters.facets[facet] || []).includes(value);
+      h += '<span class="filter-chip' + (active ? ' active' : '') + '" data-facet="' + facet + '" data-value="' + escapeHtml(value).replace(/"/g, '&quot;') + '" onclick="toggleFacet(this.dataset.facet, this.dataset.value)">' + escapeHtml(value) + '<span class="count">' + values[value] + '</span></span>';
+    }
+    h += '</div>';
+  }
+  return h + '</div>';
+}
+
+const COMMAND_TEMPLATE_KEYS = ['code.cda', 'code.claude', 'task.cda', 'task.claude', 'review'];
+
+function shellQuote(value) {
+  return /^[A-Za-z0-9_.\\/:=-]+$/.test(value) ? value : "'" + value.replace(/'/g, "'\\\\''") + "'";
+}
+
+// Mirrors renderCommandTemplate() on the server
+function renderCommandTemplate(template, vars) {
+  return (template || '')
+    .replace(/(?<!\\$)\\{\\?((?:[^{}]|\\{[A-Za-z_]\\w*\\})*)\\}/g, (m, inner) => {
+      const names = (inner.match(/(?<!\\$)\\{([A-Za-z_]\\w*)\\}/g) || []).map(p => p.slice(1, -1));
+      return names.every(name => vars[name]) ? inner : '';
+    })
+    .replace(/(?<!\\$)\\{([A-Za-z_]\\w*)\\}/g, (m, name) => vars[name] ? shellQuote(String(vars[name])) : '');
+}
+
+// Lists can map to their own project (see projectRules / taskRoots in the config)
+function getListProjectDir(taskListId) {
+  const list = (MONITOR_DATA.availableLists || []).find(l => l.id === taskListId);
+  return list && list.projectDir ? list.projectDir : MONITOR_DATA.projectDir;
+}
+
+function buildCommand(key, taskListId, taskId, agent) {
+  const templates = MONITOR_DATA.commandTemplates || {};
+  return renderCommandTemplate(templates[key], { projectDir: getListProjectDir(taskListId), listId: taskListId, taskId: taskId, agent: agent });
+}
+
+// Groups the list selector by task root and project; a single group renders as plain options
+function buildTaskListOptions(currentListId) {
+  const groups = {};
+  for (const list of MONITOR_DATA.availableLists) {
+    const label = (list.rootLabel || '') + ' — ' + (list.projectDir || MONITOR_DATA.projectDir);
+    if (!groups[label]) groups[label] = '';
+    const selected = list.id === currentListId ? ' selected' : '';
+    groups[label] += '<option value="' + escapeHtml(list.id) + '"' + selected + '>' + escapeHtml(list.id + ' (' + list.taskCount + ')' + (list.hasPrompt ? ' \\u00b7 prompt' : '')) + '</option>';
+  }
+  const labels = Object.keys(groups);
+  if (labels.length <= 1) return labels.length === 1 ? groups[labels[0]] : '';
+  return labels.map(label => '<optgroup label="' + escapeHtml(label) + '">' + groups[label] + '</optgroup>').join('');
+}
+
+function formatTaskRoots(roots) {
+  return (roots || []).map(r => {
+    const parts = [r.path, r.label || '', r.projectDir || ''];
+    while (parts.length > 1 && !parts[parts.length - 1]) parts.pop();
+    return parts.join(' | ');
+  }).join('\\n');
+}
+
+function parseTaskRoots(text) {
+  return text.split('\\n').map(line => line.trim()).filter(line => line.length > 0).map(line => {
+    const parts = line.split('|').map(part => part.trim());
+    const root = { path: parts[0] };
+    if (parts[1]) root.label = parts[1];
+    if (parts[2]) root.projectDir = parts[2];
+    return root;
+  });
+}
+
+function formatProjectRules(rules) {
+  return (rules || []).map(r => (r.prefix ? r.prefix + '*' : r.listId) + ' = ' + r.projectDir).join('\\n');
+}
+
+// "prefix* = /dir" matches by list ID prefix, "list-id = /dir" matches one list
+function parseProjectRules(text) {
+  return text.split('\\n').map(line => line.trim()).filter(line => line.length > 0).map(line => {
+    const eq = line.indexOf('=');
+    const match = (eq === -1 ? line : line.slice(0, eq)).trim();
+    const projectDir = eq === -1 ? '' : line.slice(eq + 1).trim();
+    return match.endsWith('*') ? { prefix: match.slice(0, -1), projectDir } : { listId: match, projectDir };
+  });
+}
+
+function buildNextAvailableCommand(taskListId, agent) {
+  return buildCommand('code.' + getCodeMode(), taskListId, null, agent || getNextAgentName());
+}
+
+function buildSpecificTaskCommand(taskListId, taskId, agent) {
+  return buildCommand('task.' + getCodeMode(), taskListId, taskId, agent || getNextAgentName());
+}
+
+// Listing runs tmux on the server, so it is a POST like the launch itself and is only
+// repeated every SESSIONS_REFRESH_MS however often the data refreshes
+const SESSIONS_REFRESH_MS = 15000;
+let sessionsLoadedAt = 0;
+
+async function loadLaunchedSessions() {
+  sessionsLoadedAt = Date.now();
+  try {
+    const resp = await fetch('/api/launch/sessions', { method: 'POST' });
+    if (!resp.ok) return;
+    LAUNCHED_SESSIONS = await resp.json();
+    render();
+  } catch (err) {
+    // Launch API not available
+  }
+}
+
+async function launchInTmux(taskListId, taskId, kind) {
+  const isReview = kind === 'review';
+  // A taken session name just means that agent is already running; move on to the next name
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const agent = await leaseAgentName(isReview ? 'codex' : 'agent', taskListId, taskId);
+    try {
+      const resp = await fetch('/api/launch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ listId: taskListId, taskId: taskId || null, agent, kind: isReview ? 'review' : 'code', codeMode: getCodeMode() })
+      });
+      const result = await resp.json();
+      // Keep the lease on a taken name so the registry skips it until it expires
+      if (resp.status === 409) continue;
+      if (!resp.ok) {
+        releaseAgentName(agent);
+        showToast('Launch failed: ' + escapeHtml(result.error || String(resp.status)));
+        return;
+      }
+      // Only needed when the template didn't already pass the task to the agent
+      const hint = taskId && String(result.command || '').indexOf(taskId) === -1 ? ' Type /work ' + escapeHtml(taskId) + ' in the session to start.' : '';
+      showToast('Launched @' + escapeHtml(agent) + ' in tmux.' + hint, 'tmux attach -t ' + result.session);
+      loadLaunchedSessions();
+      return;
+    } catch (err) {
+      releaseAgentName(agent);
+      showToast('Launch failed: network error');
+      return;
+    }
+  }
+  showToast('Launch failed: tmux sessions already exist for the next agent names');
+  render();
 }
 
-function buildSpecificTaskCommand(taskListId, taskId) {
-  return buildNextAvailableCommand(taskListId);
+function copyAttachCommand(session) {
+  const command = 'tmux attach -t ' + session;
+  navigator.clipboard.writeText(command).then(() => showToast('Copied!', command)).catch(() => showToast('Copy failed', command));
 }
 
-function launchSpecificTask(taskListId, taskId) {
-  const command = buildSpecificTaskCommand(taskListId, taskId);
-  const agentName = getNextAgentName();
+function buildSessionsHtml() {
+  if (!TMUX_LAUNCH || LAUNCHED_SESSIONS.length === 0) return '';
+  let h = '<div class="agents-bar sessions-bar"><span class="label">tmux</span>';
+  for (const s of LAUNCHED_SESSIONS) {
+    h += '<div class="agent" title="' + escapeHtml(s.command) + '" onclick="copyAttachCommand(' + jsArg(s.session) + ')"><span class="agent-owner">' + escapeHtml(s.session) + '</span><span class="agent-id">' + escapeHtml(s.listId) + (s.taskId ? ' #' + escapeHtml(s.taskId) : '') + '</span><span class="agent-task">attach</span></div>';
+  }
+  return h + '</div>';
+}
+
+async function launchSpecificTask(taskListId, taskId) {
+  if (TMUX_LAUNCH) { launchInTmux(taskListId, taskId, 'code'); return; }
+  const agentName = await leaseAgentName('agent', taskListId, taskId);
+  const command = buildSpecificTaskCommand(taskListId, taskId, agentName);
   navigator.clipboard.writeText(command).then(() => {
-    incrementAgentCount();
     showToast('Copied! Paste in a tmux session, then type /work ' + taskId + ' to start', command);
     render();
   }).catch(() => {
     console.log('Command: ' + command);
     showToast('Copy failed. See console (F12)', command);
-    incrementAgentCount();
     render();
   });
 }
 
-function launchNextAvailable() {
+async function launchNextAvailable() {
   const taskListSelect = document.getElementById('task-list-select');
   const taskListId = taskListSelect ? taskListSelect.value : TASK_DATA[0].id;
-  const command = buildNextAvailableCommand(taskListId);
-  const agentName = getNextAgentName();
+  if (TMUX_LAUNCH) { launchInTmux(taskListId, null, 'code'); return; }
+  const agentName = await leaseAgentName('agent', taskListId, null);
+  const command = buildNextAvailableCommand(taskListId, agentName);
   navigator.clipboard.writeText(command).then(() => {
-    incrementAgentCount();
     showToast('Copied! Paste in a tmux session to start agent', command);
     render();
   }).catch(() => {
     console.log('Command: ' + command);
     showToast('Copy failed. See console (F12)', command);
-    incrementAgentCount();
     render();
   });
 }
 
-function buildReviewCommand(taskListId, taskId) {
-  let cmd = "$codex-claude-review name=$(tmux display-message -p '#S') task-list=" + taskListId;
-  if (taskId) cmd += ' task-id=' + taskId;
+function buildReviewCommand(taskListId, taskId, agent) {
+  let cmd = buildCommand('review', taskListId, taskId, agent || getNextCodexName());
   cmd += '\\n\\n# If using native codex-app: use a unique agent name and rename your thread to match';
   return cmd;
 }
 
-function launchReview(taskListId, taskId) {
-  const command = buildReviewCommand(taskListId, taskId);
+async function launchReview(taskListId, taskId) {
+  if (TMUX_LAUNCH) { launchInTmux(taskListId, taskId, 'review'); return; }
+  const agentName = await leaseAgentName('codex', taskListId, taskId);
+  const command = buildReviewCommand(taskListId, taskId, agentName);
   navigator.clipboard.writeText(command).then(() => {
-    incrementCodexCount();
     const msg = taskId
       ? 'Codex review copied! Paste in a tmux session to start review on task #' + taskId + '. If using codex-app, use a unique agent name and rename your thread to match.'
       : 'Codex review copied! Paste in a tmux session to start review. If using codex-app, use a unique agent name and rename your thread to match.';
@@ -608,7 +1590,6 @@ function launchReview(taskListId, taskId) {
   }).catch(() => {
     console.log('Command: ' + command);
     showToast('Copy failed. See console (F12)', command);
-    incrementCodexCount();
     render();
   });
 }
@@ -622,444 +1603,3448 @@ function launchNextReview() {
 
 function escapeHtml(str) { return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'); }
 
+// A value as a string argument of an inline handler: JSON-quoted for the script, then
+// HTML-escaped for the attribute, so quotes in IDs or owner names can't break out of either
+function jsArg(value) {
+  return escapeHtml(JSON.stringify(String(value))).replace(/"/g, '&quot;');
+}
+
 function getBlockerStatus(task, allTasks) {
   if (!task.blockedBy || task.blockedBy.length === 0) return { isBlocked: false, blockers: [], ready: false };
   const blockers = task.blockedBy.map(id => {
     const blocker = allTasks.find(t => t.id === id);
-    return { id, done: blocker?.status === 'completed', subject: blocker?.subject || 'Unknown' };
+    return { id, done: blocker?.status === 'completed', missing: !blocker, subject: blocker?.subject || 'Unknown' };
   });
   const allDone = blockers.every(b => b.done);
   return { isBlocked: !allDone, blockers, ready: allDone && blockers.length > 0 };
 }
 
-function toggleTask(taskId) {
-  if (expandedTasks.has(taskId)) expandedTasks.delete(taskId);
-  else expandedTasks.add(taskId);
+function setViewMode(mode) {
+  viewMode = mode;
+  localStorage.setItem('viewMode', mode);
+  if (mode === 'archive') loadArchives();
+  if (mode === 'analytics') loadAnalytics();
   render();
 }
 
-function inlineFormat(text) {
-  text = escapeHtml(text);
-  text = text.replace(/\\*\\*(.+?)\\*\\*/g, '<strong>$1</strong>');
-  text = text.replace(/__(.+?)__/g, '<strong>$1</strong>');
-  text = text.replace(/\`([^\`]+)\`/g, '<code>$1</code>');
-  return text;
+function buildViewTabs() {
+  let h = '<div class="view-tabs">';
+  for (const [mode, label] of VIEW_MODES) {
+    h += '<button class="view-tab' + (viewMode === mode ? ' active' : '') + '" onclick="setViewMode(' + jsArg(mode) + ')">' + label + '</button>';
+  }
+  return h + '</div>';
 }
 
-function renderMarkdown(text) {
-  if (!text) return '';
-  var lines = text.split('\\n');
-  var html = '';
-  var inUl = false, inOl = false, inCode = false, codeBuf = '';
-  for (var i = 0; i < lines.length; i++) {
-    var line = lines[i];
-    if (line.trim().indexOf('\`\`\`') === 0) {
-      if (inCode) { html += '<pre><code>' + escapeHtml(codeBuf.trimEnd()) + '</code></pre>'; codeBuf = ''; inCode = false; }
-      else { if (inUl) { html += '</ul>'; inUl = false; } if (inOl) { html += '</ol>'; inOl = false; } inCode = true; }
-      continue;
-    }
-    if (inCode) { codeBuf += line + '\\n'; continue; }
-    var isBul = /^\\s*[-*]\\s+/.test(line);
-    var isNum = /^\\s*\\d+\\.\\s+/.test(line);
-    if (inUl && !isBul) { html += '</ul>'; inUl = false; }
-    if (inOl && !isNum) { html += '</ol>'; inOl = false; }
-    if (line.trim() === '') continue;
-    if (/^####\\s+/.test(line)) html += '<h4>' + inlineFormat(line.replace(/^####\\s+/, '')) + '</h4>';
-    else if (/^###\\s+/.test(line)) html += '<h3>' + inlineFormat(line.replace(/^###\\s+/, '')) + '</h3>';
-    else if (/^##\\s+/.test(line)) html += '<h2>' + inlineFormat(line.replace(/^##\\s+/, '')) + '</h2>';
-    else if (/^#\\s+/.test(line)) html += '<h1>' + inlineFormat(line.replace(/^#\\s+/, '')) + '</h1>';
-    else if (isBul) { if (!inUl) { html += '<ul>'; inUl = true; } html += '<li>' + inlineFormat(line.replace(/^\\s*[-*]\\s+/, '')) + '</li>'; }
-    else if (isNum) { if (!inOl) { html += '<ol>'; inOl = true; } html += '<li>' + inlineFormat(line.replace(/^\\s*\\d+\\.\\s+/, '')) + '</li>'; }
-    else html += '<p>' + inlineFormat(line) + '</p>';
+async function loadArchives() {
+  try {
+    const resp = await fetch('/api/archives', { cache: 'no-store' });
+    if (!resp.ok) throw new Error('Failed: ' + resp.status);
+    ARCHIVES = await resp.json();
+    archiveError = '';
+  } catch (err) {
+    ARCHIVES = [];
+    archiveError = 'Archive API not available';
   }
-  if (inUl) html += '</ul>';
-  if (inOl) html += '</ol>';
-  if (inCode) html += '<pre><code>' + escapeHtml(codeBuf.trimEnd()) + '</code></pre>';
-  return html;
+  render();
 }
 
-function buildDetailHtml(task) {
-  var h = '';
-  if (task.description) {
-    h += '<div class="detail-section"><div class="detail-label">Description</div><div class="detail-desc">' + renderMarkdown(task.description) + '</div></div>';
+async function openArchive(file) {
+  if (SELECTED_ARCHIVE && SELECTED_ARCHIVE.file === file) {
+    SELECTED_ARCHIVE = null;
+    render();
+    return;
   }
-  var m = task.metadata;
-  if (m) {
-    var fields = [['wave','Wave'],['phase','Phase'],['epic','Epic'],['loe','LOE'],['complexity','Complexity'],['riskLevel','Risk'],['swarmLane','Lane'],['planSection','Plan Section'],['feature','Feature'],['bundleTaskNumber','Bundle #']];
-    var hasField = false;
-    var gridHtml = '';
-    for (var fi = 0; fi < fields.length; fi++) {
-      var val = m[fields[fi][0]];
-      if (val !== undefined && val !== null) {
-        hasField = true;
-        var cls = 'val';
-        if (fields[fi][0] === 'riskLevel') cls += ' risk-' + val;
-        gridHtml += '<div><span class="lbl">' + fields[fi][1] + ': </span><span class="' + cls + '">' + escapeHtml(String(val)) + '</span></div>';
-      }
+  try {
+    const resp = await fetch('/api/archives/' + encodeURIComponent(file), { cache: 'no-store' });
+    if (!resp.ok) throw new Error('Failed: ' + resp.status);
+    SELECTED_ARCHIVE = await resp.json();
+    expandedArchiveTasks = new Set();
+  } catch (err) {
+    showToast('Failed to load archive', file);
+  }
+  render();
+}
+
+async function restoreArchive(file) {
+  if (!confirm('Restore ' + file + ' into the tasks directory?')) return;
+  try {
+    const resp = await fetch('/api/archives/' + encodeURIComponent(file) + '/restore', { method: 'POST' });
+    const result = await resp.json();
+    if (!resp.ok) {
+      showToast('Restore failed: ' + escapeHtml(result.error || String(resp.status)), file);
+      return;
     }
-    if (hasField) {
-      h += '<div class="detail-section"><div class="detail-label">Metadata</div><div class="detail-grid">' + gridHtml + '</div>';
-      if (m.skillsHint && m.skillsHint.length > 0) {
-        h += '<div class="detail-tags">';
-        for (var si = 0; si < m.skillsHint.length; si++) h += '<span class="detail-tag">' + escapeHtml(m.skillsHint[si]) + '</span>';
-        h += '</div>';
+    showToast('Restored ' + result.taskCount + ' tasks to', result.path);
+  } catch (err) {
+    showToast('Restore failed: network error', file);
+  }
+}
+
+function toggleArchiveTask(taskId) {
+  if (expandedArchiveTasks.has(taskId)) expandedArchiveTasks.delete(taskId);
+  else expandedArchiveTasks.add(taskId);
+  render();
+}
+
+function buildArchiveHtml() {
+  if (ARCHIVES === null) return '<div class="empty">Loading archives...</div>';
+  if (archiveError) return '<div class="empty">' + escapeHtml(archiveError) + '</div>';
+  if (ARCHIVES.length === 0) return '<div class="empty">No archived task lists yet.</div>';
+
+  let html = '<div class="task-list"><div class="task-list-header"><h2>Archive</h2><span class="meta">(' + ARCHIVES.length + ' archived lists)</span></div>';
+  for (const archive of ARCHIVES) {
+    const isOpen = SELECTED_ARCHIVE && SELECTED_ARCHIVE.file === archive.file;
+    const archivedAt = archive.archivedAt ? new Date(archive.archivedAt).toLocaleString() : 'unknown';
+    html += '<div class="archive-item"><div class="archive-row" onclick="openArchive(' + jsArg(archive.file) + ')">';
+    html += '<span class="chevron' + (isOpen ? ' expanded' : '') + '">\\u25B8</span>';
+    html += '<span class="archive-id" title="' + escapeHtml(archive.file) + '">' + escapeHtml(archive.id) + '</span>';
+    html += '<span class="archive-date">' + escapeHtml(archivedAt) + '</span>';
+    html += '<span class="archive-counts">' + archive.completedCount + '/' + archive.taskCount + ' done</span>';
+    if (!MONITOR_DATA.readOnly) html += '<button class="restore-btn" onclick="event.stopPropagation(); restoreArchive(' + jsArg(archive.file) + ')">Restore</button>';
+    html += '</div>';
+    if (isOpen) {
+      html += '<div class="archive-tasks">';
+      for (const task of SELECTED_ARCHIVE.tasks) {
+        const isExp = expandedArchiveTasks.has(task.id);
+        const icon = task.status === 'completed' ? '\\u25cf' : task.status === 'in_progress' ? '\\u25d0' : '\\u25cb';
+        html += '<div class="task-item"><div class="task ' + task.status + '" onclick="toggleArchiveTask(' + jsArg(task.id) + ')">';
+        html += '<span class="chevron' + (isExp ? ' expanded' : '') + '">\\u25B8</span>';
+        html += '<span class="icon ' + task.status + '">' + icon + '</span><span class="id">#' + escapeHtml(task.id) + '</span><span class="subject" title="' + escapeHtml(task.subject) + '">' + escapeHtml(task.subject) + '</span>';
+        html += '<span class="suffix">' + (task.owner ? '<span class="owner">@' + escapeHtml(task.owner) + '</span>' : '') + '</span></div>';
+        if (isExp) html += '<div class="task-detail">' + buildDetailHtml(task) + '</div>';
+        html += '</div>';
       }
-      h += '</div>';
+      html += '</div>';
     }
+    html += '</div>';
   }
-  var cr = m && m.completionReport;
-  if (cr) {
-    h += '<div class="detail-section"><div class="detail-label">Completion Report</div><div class="detail-report">';
-    h += '<div class="agent-line">';
-    if (cr.agent) h += '@' + escapeHtml(cr.agent);
-    if (cr.completedAt) h += ' \\u00b7 ' + new Date(cr.completedAt).toLocaleString();
-    h += '</div>';
-    if (cr.summary) h += '<div class="summary">' + escapeHtml(cr.summary) + '</div>';
-    if (cr.filesChanged && cr.filesChanged.length > 0) {
-      h += '<div class="sub-label">Files changed</div><ul class="detail-files">';
-      for (var fc = 0; fc < cr.filesChanged.length; fc++) h += '<li>' + escapeHtml(cr.filesChanged[fc]) + '</li>';
-      h += '</ul>';
-    }
-    if (cr.decisions && cr.decisions.length > 0) {
-      h += '<div class="sub-label">Decisions</div><ul class="detail-decisions">';
-      for (var di = 0; di < cr.decisions.length; di++) h += '<li>' + escapeHtml(cr.decisions[di]) + '</li>';
-      h += '</ul>';
+  return html + '</div>';
+}
+
+// Edges run blocker -> blocked, merged from both blockedBy and blocks so one-sided links still show
+function getTaskEdges(tasks) {
+  const ids = new Set(tasks.map(t => t.id));
+  const seen = new Set();
+  const edges = [];
+  const add = (from, to) => {
+    const key = from + '>' + to;
+    if (from === to || !ids.has(from) || !ids.has(to) || seen.has(key)) return;
+    seen.add(key);
+    edges.push({ from, to });
+  };
+  for (const t of tasks) {
+    for (const b of (t.blockedBy || [])) add(b, t.id);
+    for (const b of (t.blocks || [])) add(t.id, b);
+  }
+  return edges;
+}
+
+function layoutTaskGraph(tasks, edges) {
+  const preds = {};
+  for (const t of tasks) preds[t.id] = [];
+  for (const e of edges) preds[e.to].push(e.from);
+
+  // Longest-path layering; nodes on a cycle are cut at the back edge
+  const layer = {};
+  const visiting = new Set();
+  const depthOf = (id) => {
+    if (layer[id] !== undefined) return layer[id];
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    let d = 0;
+    for (const p of preds[id]) d = Math.max(d, depthOf(p) + 1);
+    visiting.delete(id);
+    layer[id] = d;
+    return d;
+  };
+  for (const t of tasks) depthOf(t.id);
+
+  const columns = [];
+  for (const t of tasks) {
+    const l = layer[t.id];
+    if (!columns[l]) columns[l] = [];
+    columns[l].push(t.id);
+  }
+
+  // Order each column by the average row of its blockers to keep edges short
+  const row = {};
+  for (let c = 0; c < columns.length; c++) {
+    const col = columns[c] || [];
+    if (c > 0) {
+      const center = (id) => {
+        const ps = preds[id].filter(p => row[p] !== undefined);
+        return ps.length > 0 ? ps.reduce((sum, p) => sum + row[p], 0) / ps.length : Infinity;
+      };
+      col.sort((a, b) => (center(a) - center(b)) || a.localeCompare(b, undefined, { numeric: true }));
     }
-    if (cr.verification) {
-      var v = cr.verification;
-      h += '<div class="detail-verify">Build: <span class="' + (v.buildPasses ? 'pass' : 'fail') + '">' + (v.buildPasses ? 'PASS' : 'FAIL') + '</span>';
-      if (v.browserTested !== undefined) h += ' \\u00b7 Browser: <span class="' + (v.browserTested ? 'pass' : 'fail') + '">' + (v.browserTested ? 'Yes' : 'No') + '</span>';
-      if (v.notes) h += '<div style="margin-top:4px;color:#8b949e;">' + escapeHtml(v.notes) + '</div>';
-      h += '</div>';
+    col.forEach((id, i) => { row[id] = i; });
+  }
+  return { layer, row, columns };
+}
+
+// Longest chain of not-yet-completed tasks; the work that bounds how soon the list can finish
+function findCriticalPath(tasks, edges) {
+  const byId = {};
+  for (const t of tasks) byId[t.id] = t;
+  const remaining = (id) => byId[id] && byId[id].status !== 'completed';
+  const preds = {};
+  for (const t of tasks) preds[t.id] = [];
+  for (const e of edges) if (remaining(e.from) && remaining(e.to)) preds[e.to].push(e.from);
+
+  const dist = {};
+  const next = {};
+  const visiting = new Set();
+  const lengthTo = (id) => {
+    if (dist[id] !== undefined) return dist[id];
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    let best = 0;
+    for (const p of preds[id]) {
+      const d = lengthTo(p);
+      if (d > best) { best = d; next[id] = p; }
     }
-    h += '</div></div>';
+    visiting.delete(id);
+    dist[id] = best + 1;
+    return dist[id];
+  };
+
+  let end = null;
+  for (const t of tasks) {
+    if (!remaining(t.id)) continue;
+    if (end === null || lengthTo(t.id) > dist[end]) end = t.id;
   }
-  if ((task.blocks && task.blocks.length > 0) || (task.blockedBy && task.blockedBy.length > 0)) {
-    h += '<div class="detail-section"><div class="detail-label">Dependencies</div><div class="detail-deps">';
-    if (task.blocks && task.blocks.length > 0) h += 'Blocks: ' + task.blocks.map(function(id) { return '#' + id; }).join(', ');
-    if (task.blocks && task.blocks.length > 0 && task.blockedBy && task.blockedBy.length > 0) h += ' \\u00b7 ';
-    if (task.blockedBy && task.blockedBy.length > 0) h += 'Blocked by: ' + task.blockedBy.map(function(id) { return '#' + id; }).join(', ');
+  const path = [];
+  for (let id = end; id !== null && id !== undefined && path.indexOf(id) === -1; id = next[id]) path.unshift(id);
+  return path;
+}
+
+// Analytics view: charts computed on the server from the task history log
+const DURATION_BUCKETS = [[5 * 60000, '< 5m'], [15 * 60000, '5-15m'], [30 * 60000, '15-30m'], [3600000, '30m-1h'], [2 * 3600000, '1-2h'], [4 * 3600000, '2-4h'], [Infinity, '4h+']];
+
+function getAnalyticsScope() {
+  return localStorage.getItem('analyticsScope') === 'all' ? 'all' : 'list';
+}
+
+function setAnalyticsScope(scope) {
+  localStorage.setItem('analyticsScope', scope);
+  loadAnalytics();
+  render();
+}
+
+async function loadAnalytics() {
+  const listId = getAnalyticsScope() === 'all' ? '' : getSelectedListId();
+  try {
+    const resp = await fetch('/api/analytics' + (listId ? '?listId=' + encodeURIComponent(listId) : ''), { cache: 'no-store' });
+    if (!resp.ok) throw new Error('Failed: ' + resp.status);
+    ANALYTICS = await resp.json();
+    analyticsKey = listId;
+    analyticsError = '';
+  } catch (err) {
+    analyticsError = 'Analytics unavailable (' + err.message + ')';
+  }
+  if (viewMode === 'analytics') render();
+}
+
+function medianMs(durations) {
+  if (durations.length === 0) return null;
+  const sorted = durations.map(d => d.ms).sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Step lines for total, remaining and in-progress tasks, extended to now
+function buildBurndownSvg(points) {
+  if (points.length < 2) return '<div class="filter-empty">Not enough history yet.</div>';
+  const W = 640, H = 200, PAD = 30;
+  const t0 = Date.parse(points[0].timestamp);
+  const t1 = Math.max(Date.now(), Date.parse(points[points.length - 1].timestamp));
+  const maxY = Math.max(1, ...points.map(p => p.total));
+  const x = t => Math.round(PAD + (t - t0) / Math.max(1, t1 - t0) * (W - PAD * 2));
+  const y = v => Math.round(H - PAD - v / maxY * (H - PAD * 2));
+  const stepPath = key => points.map((p, i) => i === 0
+    ? 'M' + x(Date.parse(p.timestamp)) + ' ' + y(p[key])
+    : 'H' + x(Date.parse(p.timestamp)) + ' V' + y(p[key])).join(' ') + ' H' + x(t1);
+  const fmt = t => new Date(t).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+  let svg = '<svg class="burndown" width="100%" viewBox="0 0 ' + W + ' ' + H + '">';
+  svg += '<line class="axis" x1="' + PAD + '" y1="' + (H - PAD) + '" x2="' + (W - PAD) + '" y2="' + (H - PAD) + '"/>';
+  svg += '<line class="axis" x1="' + PAD + '" y1="' + PAD + '" x2="' + PAD + '" y2="' + (H - PAD) + '"/>';
+  svg += '<text class="axis-label" x="' + (PAD - 4) + '" y="' + (PAD + 4) + '" text-anchor="end">' + maxY + '</text>';
+  svg += '<text class="axis-label" x="' + (PAD - 4) + '" y="' + (H - PAD) + '" text-anchor="end">0</text>';
+  svg += '<text class="axis-label" x="' + PAD + '" y="' + (H - 10) + '">' + escapeHtml(fmt(t0)) + '</text>';
+  svg += '<text class="axis-label" x="' + (W - PAD) + '" y="' + (H - 10) + '" text-anchor="end">' + escapeHtml(fmt(t1)) + '</text>';
+  svg += '<path class="line total" d="' + stepPath('total') + '"/>';
+  svg += '<path class="line remaining" d="' + stepPath('remaining') + '"/>';
+  svg += '<path class="line active" d="' + stepPath('active') + '"/>';
+  return svg + '</svg>';
+}
+
+function buildBarRowsHtml(rows) {
+  const max = Math.max(1, ...rows.map(r => r.count));
+  return rows.map(r => '<div class="bar-row"><span class="bar-label" title="' + escapeHtml(r.label) + '">' + escapeHtml(r.label) + '</span><span class="bar"><span style="width:' + Math.round(r.count / max * 100) + '%"></span></span><span class="bar-value">' + r.text + '</span></div>').join('');
+}
+
+function buildDurationHistogramHtml(durations) {
+  if (durations.length === 0) return '<div class="filter-empty">No samples yet.</div>';
+  const counts = DURATION_BUCKETS.map(() => 0);
+  for (const d of durations) counts[DURATION_BUCKETS.findIndex(b => d.ms < b[0])]++;
+  return buildBarRowsHtml(DURATION_BUCKETS.map(([, label], i) => ({ label, count: counts[i], text: String(counts[i]) })));
+}
+
+function buildAnalyticsHtml() {
+  const scope = getAnalyticsScope();
+  let h = '<div class="board-toolbar">Analytics for <select onchange="setAnalyticsScope(this.value)">' +
+    '<option value="list"' + (scope === 'list' ? ' selected' : '') + '>' + escapeHtml(getSelectedListId() || 'this list') + '</option>' +
+    '<option value="all"' + (scope === 'all' ? ' selected' : '') + '>all lists</option></select></div>';
+  if (analyticsError) return h + '<div class="empty">' + escapeHtml(analyticsError) + '</div>';
+  const expectedKey = scope === 'all' ? '' : getSelectedListId();
+  if (ANALYTICS === null || analyticsKey !== expectedKey) return h + '<div class="empty">Loading analytics...</div>';
+
+  const a = ANALYTICS;
+  const cycle = medianMs(a.cycleTimes);
+  const wait = medianMs(a.waitTimes);
+  h += '<div class="analytics-summary">';
+  h += '<span><span class="value">' + a.completed + '</span>completed</span>';
+  h += '<span><span class="value">' + (cycle !== null ? formatDuration(cycle) : '-') + '</span>median cycle time</span>';
+  h += '<span><span class="value">' + (wait !== null ? formatDuration(wait) : '-') + '</span>median wait after unblock</span>';
+  h += '<span><span class="value">' + (a.completedPerHour !== null ? a.completedPerHour.toFixed(1) : '-') + '</span>tasks/hour</span>';
+  h += '<span><span class="value">' + a.peakActive + '</span>peak parallel tasks</span>';
+  h += '</div>';
+
+  h += '<div class="analytics-panel"><h3>Burndown</h3>' + buildBurndownSvg(a.burndown) +
+    '<div class="graph-legend"><span>- - total</span><span class="available">\\u2014 remaining</span><span class="in_progress">\\u2014 in progress</span></div></div>';
+  h += '<div class="analytics-grid">';
+  h += '<div class="analytics-panel"><h3>Cycle time (in progress \\u2192 completed)</h3>' + buildDurationHistogramHtml(a.cycleTimes) + '</div>';
+  h += '<div class="analytics-panel"><h3>Completed per agent</h3>' + (a.agents.length === 0
+    ? '<div class="filter-empty">No completions yet.</div>'
+    : buildBarRowsHtml(a.agents.map(ag => ({ label: '@' + ag.agent, count: ag.completed, text: ag.completed + (ag.medianCycleMs !== null ? ' \\u00b7 ' + formatDuration(ag.medianCycleMs) + ' median' : '') })))) +
+    '<div class="hint">Agent from the completion report, otherwise the task owner</div></div>';
+  h += '<div class="analytics-panel"><h3>Wait after unblock</h3>' + buildDurationHistogramHtml(a.waitTimes) +
+    '<div class="hint">Time from the last blocker completing to the task starting</div></div>';
+  return h + '</div>';
+}
+
+// Board view: one column per task state, one swimlane per value of the chosen metadata field
+const BOARD_COLUMNS = [['blocked', 'Blocked'], ['available', 'Available'], ['in_progress', 'In progress'], ['completed', 'Completed']];
+const BOARD_LANE_FIELDS = [['wave', 'Wave'], ['phase', 'Phase'], ['epic', 'Epic'], ['swarmLane', 'Lane'], ['feature', 'Feature'], ['', 'None']];
+
+function getBoardLaneField() {
+  const stored = localStorage.getItem('boardLaneField');
+  return stored !== null && BOARD_LANE_FIELDS.some(f => f[0] === stored) ? stored : 'wave';
+}
+
+function setBoardLaneField(field) {
+  localStorage.setItem('boardLaneField', field);
+  render();
+}
+
+function getBoardColumn(task, allTasks) {
+  if (task.status !== 'pending') return task.status;
+  return getBlockerStatus(task, allTasks).isBlocked ? 'blocked' : 'available';
+}
+
+function buildBoardCardHtml(task, listId) {
+  const m = task.metadata || {};
+  const subject = task.status === 'in_progress' && task.activeForm ? task.activeForm : task.subject;
+  let meta = '';
+  if (task.owner) meta += '<span class="owner">@' + escapeHtml(task.owner) + '</span>';
+  if (m.riskLevel !== undefined && m.riskLevel !== null) meta += '<span class="risk-' + escapeHtml(String(m.riskLevel)) + '">risk ' + escapeHtml(String(m.riskLevel)) + '</span>';
+  if (m.loe !== undefined && m.loe !== null) meta += '<span>LOE ' + escapeHtml(String(m.loe)) + '</span>';
+  meta += buildVerificationBadge(listId, task.id);
+  return '<div class="board-card" onclick="openTaskInList(' + jsArg(listId) + ', ' + jsArg(task.id) + ')" title="' + escapeHtml(subject) + '">' +
+    '<div class="card-title"><span class="id">#' + escapeHtml(task.id) + '</span>' + escapeHtml(subject) + '</div>' +
+    (meta ? '<div class="card-meta">' + meta + '</div>' : '') + '</div>';
+}
+
+function buildBoardHtml(taskList) {
+  const tasks = taskList.tasks;
+  const field = getBoardLaneField();
+  let h = '<div class="board-toolbar">Swimlanes by <select onchange="setBoardLaneField(this.value)">';
+  for (const [key, label] of BOARD_LANE_FIELDS) {
+    h += '<option value="' + key + '"' + (key === field ? ' selected' : '') + '>' + label + '</option>';
+  }
+  h += '</select></div>';
+  if (tasks.length === 0) return h + '<div class="empty">No tasks in this list.</div>';
+
+  const lanes = {};
+  const totals = {};
+  for (const task of tasks) {
+    const raw = field && task.metadata ? task.metadata[field] : undefined;
+    const lane = raw === undefined || raw === null || raw === '' ? '' : String(raw);
+    if (!lanes[lane]) lanes[lane] = { blocked: [], available: [], in_progress: [], completed: [] };
+    const column = getBoardColumn(task, tasks);
+    lanes[lane][column].push(task);
+    totals[column] = (totals[column] || 0) + 1;
+  }
+  // Tasks without the field go last
+  const laneKeys = Object.keys(lanes).sort((a, b) => a === '' ? 1 : b === '' ? -1 : a.localeCompare(b, undefined, { numeric: true }));
+  const fieldLabel = BOARD_LANE_FIELDS.find(f => f[0] === field)[1];
+
+  h += '<div class="board"><div class="board-head"></div>';
+  for (const [key, label] of BOARD_COLUMNS) {
+    h += '<div class="board-head ' + key + '">' + label + '<span class="count">' + (totals[key] || 0) + '</span></div>';
+  }
+  for (const lane of laneKeys) {
+    const cols = lanes[lane];
+    const total = BOARD_COLUMNS.reduce((sum, [key]) => sum + cols[key].length, 0);
+    const done = cols.completed.length;
+    const name = !field ? 'All tasks' : lane === '' ? 'No ' + fieldLabel.toLowerCase() : fieldLabel + ' ' + lane;
+    h += '<div class="board-lane"><div class="lane-name">' + escapeHtml(name) + '</div>';
+    h += '<div class="lane-progress"><div style="width:' + Math.round(done / total * 100) + '%"></div></div>';
+    h += '<div class="lane-counts">' + done + '/' + total + ' done';
+    if (cols.in_progress.length > 0) h += ' \\u00b7 <span class="active">' + cols.in_progress.length + ' active</span>';
+    if (cols.available.length > 0) h += ' \\u00b7 <span class="available">' + cols.available.length + ' avail</span>';
+    if (cols.blocked.length > 0) h += ' \\u00b7 <span class="blocked">' + cols.blocked.length + ' blocked</span>';
     h += '</div></div>';
+    for (const [key] of BOARD_COLUMNS) {
+      h += '<div class="board-cell">' + cols[key].map(t => buildBoardCardHtml(t, taskList.id)).join('') + '</div>';
+    }
+  }
+  return h + '</div>';
+}
+
+const WARNING_LABELS = { cycle: 'Cycle', dangling: 'Missing task', asymmetric: 'One-sided link', deadlock: 'Deadlock' };
+
+function getTaskVerification(listId, taskId) {
+  const byTask = (MONITOR_DATA.listVerification || {})[listId];
+  return byTask ? byTask[taskId] || null : null;
+}
+
+function buildVerificationBadge(listId, taskId) {
+  const v = getTaskVerification(listId, taskId);
+  if (!v) return '';
+  const label = v.state === 'verified' ? '\\u2713 verified' : v.state === 'failed' ? '\\u2717 failed' : '? unverified';
+  return '<span class="verify-badge ' + v.state + '" title="' + escapeHtml(v.reason || 'Build passes').replace(/"/g, '&quot;') + '">' + label + '</span>';
+}
+
+// Completed tasks whose report failed verification or is missing, failures first
+function buildAttentionHtml(taskList) {
+  const byTask = (MONITOR_DATA.listVerification || {})[taskList.id] || {};
+  const items = taskList.tasks
+    .filter(t => byTask[t.id] && byTask[t.id].state !== 'verified')
+    .sort((a, b) => (byTask[a.id].state === 'failed' ? 0 : 1) - (byTask[b.id].state === 'failed' ? 0 : 1));
+  if (items.length === 0) return '';
+  const failed = items.filter(t => byTask[t.id].state === 'failed').length;
+  let h = '<div class="attention"><div class="attention-title">\\u2691 ' + items.length + ' completed task' + (items.length > 1 ? 's need' : ' needs') + ' attention' +
+    (failed > 0 ? ' (' + failed + ' failed)' : '') +
+    '<span class="filter-clear" onclick="setTaskFilters({ q: \\'\\', scope: getTaskFilters().scope, facets: { verification: [\\'failed\\', \\'unverified\\'] } })">show in list</span></div>';
+  for (const task of items) {
+    const v = byTask[task.id];
+    h += '<div class="attention-item ' + v.state + '"><span class="kind">' + v.state + '</span>' +
+      '<span class="attention-task" onclick="openTaskInList(' + jsArg(taskList.id) + ', ' + jsArg(task.id) + ')">#' + escapeHtml(task.id) + ' ' + escapeHtml(task.subject) + '</span>' +
+      '<span class="reason">' + escapeHtml(v.reason || '') + '</span>';
+    if (v.reviewTaskId) {
+      h += '<span class="attention-review" onclick="openTaskInList(' + jsArg(taskList.id) + ', ' + jsArg(v.reviewTaskId) + ')">review #' + escapeHtml(v.reviewTaskId) + '</span>';
+    } else if (v.state === 'failed' && !MONITOR_DATA.readOnly) {
+      h += '<button class="attention-review" onclick="createReviewTask(' + jsArg(taskList.id) + ', ' + jsArg(task.id) + ')">Create REVIEW task</button>';
+    }
+    h += '</div>';
+  }
+  return h + '</div>';
+}
+
+function getConflictLabel(c) {
+  if (c.concurrent) return 'ran concurrently';
+  return c.linked ? 'dependent' : 'no dependency';
+}
+
+// Tasks whose completion reports list the same changed files
+function buildConflictsHtml(taskList) {
+  const conflicts = (MONITOR_DATA.listConflicts || {})[taskList.id];
+  if (!conflicts || conflicts.length === 0) return '';
+  const high = conflicts.filter(c => c.severity === 'high').length;
+  let h = '<div class="conflicts"><div class="conflicts-title">\\u21c4 ' + conflicts.length + ' file overlap' + (conflicts.length > 1 ? 's' : '') +
+    (high > 0 ? ' (' + high + ' between concurrent or unordered tasks)' : '') + '</div>';
+  for (const c of conflicts) {
+    const [a, b] = c.taskIds;
+    h += '<div class="conflict ' + c.severity + '"><span class="kind">' + getConflictLabel(c) + '</span>' +
+      '<span class="conflict-tasks"><span onclick="openTaskInList(' + jsArg(taskList.id) + ', ' + jsArg(a) + ')">#' + escapeHtml(a) + '</span> \\u21c4 <span onclick="openTaskInList(' + jsArg(taskList.id) + ', ' + jsArg(b) + ')">#' + escapeHtml(b) + '</span></span>' +
+      '<span class="conflict-files" title="' + escapeHtml(c.files.join('\\n')).replace(/"/g, '&quot;') + '">' + escapeHtml(c.files.join(', ')) + '</span></div>';
+  }
+  return h + '</div>';
+}
+
+async function createReviewTask(taskListId, taskId) {
+  try {
+    const resp = await fetch('/api/lists/' + encodeURIComponent(taskListId) + '/tasks/' + encodeURIComponent(taskId) + '/review', { method: 'POST' });
+    const body = await resp.json();
+    if (!resp.ok) throw new Error(body.error || 'Failed: ' + resp.status);
+    showToast('Created #' + body.task.id + ': ' + body.task.subject);
+    fetchData();
+  } catch (err) {
+    showToast('Could not create review task: ' + err.message);
+  }
+}
+
+// Files that failed to parse or validate; the server rechecks them whenever they change
+function buildInvalidFilesHtml(listId, showListId) {
+  const diagnostics = (MONITOR_DATA.listDiagnostics || {})[listId];
+  if (!diagnostics || diagnostics.length === 0) return '';
+  let h = '<div class="invalid-files"><div class="invalid-files-title">\\u2715 ' + diagnostics.length + ' invalid task file' + (diagnostics.length > 1 ? 's' : '') +
+    (showListId ? ' in ' + escapeHtml(listId) : '') + '<span class="hint">skipped until fixed</span></div>';
+  for (const d of diagnostics) {
+    const where = d.line ? ':' + d.line + ':' + d.column : '';
+    h += '<div class="invalid-file" title="' + escapeHtml(d.path + where).replace(/"/g, '&quot;') + '"><span class="file">' + escapeHtml(d.file + where) + '</span>' + escapeHtml(d.error) + '</div>';
+  }
+  return h + '</div>';
+}
+
+// Lists whose every file is invalid have no tasks, so they aren't in TASK_DATA to render on their own
+function buildOrphanedInvalidFilesHtml() {
+  return Object.keys(MONITOR_DATA.listDiagnostics || {})
+    .filter(listId => !TASK_DATA.some(list => list.id === listId))
+    .map(listId => buildInvalidFilesHtml(listId, true))
+    .join('');
+}
+
+function buildWarningsHtml(listId) {
+  const warnings = (MONITOR_DATA.listWarnings || {})[listId];
+  if (!warnings || warnings.length === 0) return '';
+  let h = '<div class="list-warnings"><div class="list-warnings-title">\\u26a0 ' + warnings.length + ' dependency problem' + (warnings.length > 1 ? 's' : '') + '</div>';
+  for (const w of warnings) {
+    h += '<div class="list-warning ' + w.type + '"><span class="kind">' + (WARNING_LABELS[w.type] || escapeHtml(w.type)) + '</span>' + escapeHtml(w.message) + '</div>';
+  }
+  return h + '</div>';
+}
+
+function openTaskInList(listId, taskId) {
+  expandedTasks.add(listId + '/' + taskId);
+  setViewMode('tasks');
+  const row = document.getElementById('task-row-' + listId + '/' + taskId);
+  if (row) row.scrollIntoView({ block: 'center' });
+}
+
+function openList(taskListId) {
+  switchTaskList(taskListId);
+  setViewMode('tasks');
+}
+
+// Blocked means pending with an unfinished or missing blocker, as in the board view
+function getListProgress(taskList) {
+  const p = { total: taskList.tasks.length, completed: 0, inProgress: 0, available: 0, blocked: 0, owners: [], unowned: 0 };
+  for (const task of taskList.tasks) {
+    if (task.status === 'completed') {
+      p.completed++;
+    } else if (task.status === 'in_progress') {
+      p.inProgress++;
+      if (!task.owner) p.unowned++;
+      else if (!p.owners.includes(task.owner)) p.owners.push(task.owner);
+    } else if (getBlockerStatus(task, taskList.tasks).isBlocked) {
+      p.blocked++;
+    } else {
+      p.available++;
+    }
+  }
+  return p;
+}
+
+// One line per kind of problem; the list view has the details
+function getListProblems(taskList) {
+  const plural = (n, word) => n + ' ' + word + (n > 1 ? 's' : '');
+  const problems = [];
+  const warnings = (MONITOR_DATA.listWarnings || {})[taskList.id] || [];
+  if (warnings.length > 0) problems.push(['warn', '\\u26a0 ' + plural(warnings.length, 'dependency problem')]);
+  const invalid = (MONITOR_DATA.listDiagnostics || {})[taskList.id] || [];
+  if (invalid.length > 0) problems.push(['error', '\\u2715 ' + plural(invalid.length, 'invalid file')]);
+  const failed = Object.values((MONITOR_DATA.listVerification || {})[taskList.id] || {}).filter(v => v.state === 'failed').length;
+  if (failed > 0) problems.push(['error', '\\u2717 ' + failed + ' failed verification']);
+  const overlaps = ((MONITOR_DATA.listConflicts || {})[taskList.id] || []).filter(c => c.severity === 'high').length;
+  if (overlaps > 0) problems.push(['warn', '\\u21c4 ' + plural(overlaps, 'file overlap')]);
+  return problems;
+}
+
+function buildOverviewCardHtml(taskList, p) {
+  const modified = new Date(taskList.lastModified);
+  const segments = [['completed', p.completed, 'done'], ['in_progress', p.inProgress, 'in progress'], ['available', p.available, 'available'], ['blocked', p.blocked, 'blocked']];
+  let h = '<div class="overview-card' + (taskList.id === getSelectedListId() ? ' current' : '') + '" onclick="openList(' + jsArg(taskList.id) + ')">' +
+    '<div class="overview-head"><span class="overview-name" title="' + escapeHtml(taskList.id + '\\n' + getListProjectDir(taskList.id)) + '">' + escapeHtml(taskList.id) + '</span>' +
+    '<span class="overview-updated" title="Last modified ' + escapeHtml(modified.toLocaleString()) + '">' + formatDuration(Math.max(0, Date.now() - modified.getTime())) + ' ago</span></div>';
+  h += '<div class="overview-progress" title="' + segments.map(([, n, label]) => n + ' ' + label).join(', ') + '">';
+  for (const [state, n] of segments) {
+    if (n > 0) h += '<span class="' + state + '" style="width:' + (n / p.total * 100).toFixed(1) + '%"></span>';
+  }
+  h += '</div><div class="overview-counts"><span class="done">' + p.completed + '/' + p.total + ' done</span>' +
+    (p.inProgress > 0 ? '<span class="active">' + p.inProgress + ' active</span>' : '') +
+    '<span class="available">' + p.available + ' available</span>' +
+    (p.blocked > 0 ? '<span class="blocked">' + p.blocked + ' blocked</span>' : '') + '</div>';
+  h += '<div class="overview-agents">';
+  if (p.owners.length === 0 && p.unowned === 0) h += 'No active agents';
+  for (const owner of p.owners) h += '<span class="owner">@' + escapeHtml(owner) + '</span>';
+  if (p.unowned > 0) h += '<span>' + p.unowned + ' unowned</span>';
+  h += '</div>';
+  const problems = getListProblems(taskList);
+  if (problems.length > 0) h += '<div class="overview-warnings">' + problems.map(([level, text]) => '<span class="' + level + '">' + text + '</span>').join('') + '</div>';
+  return h + '</div>';
+}
+
+// Every active list as a card; clicking one opens it in the list view
+function buildOverviewHtml() {
+  const progress = TASK_DATA.map(getListProgress);
+  const agents = new Set();
+  let available = 0, completed = 0, total = 0;
+  for (const p of progress) {
+    p.owners.forEach(owner => agents.add(owner));
+    available += p.available;
+    completed += p.completed;
+    total += p.total;
   }
+  let h = '<div class="overview-summary"><span><span class="value">' + TASK_DATA.length + '</span>' + (TASK_DATA.length === 1 ? 'list' : 'lists') + '</span>' +
+    '<span><span class="value">' + agents.size + '</span>active ' + (agents.size === 1 ? 'agent' : 'agents') + '</span>' +
+    '<span><span class="value">' + available + '</span>available</span>' +
+    '<span><span class="value">' + completed + '/' + total + '</span>done</span></div>';
+  h += '<div class="overview-grid">' + TASK_DATA.map((list, i) => buildOverviewCardHtml(list, progress[i])).join('') + '</div>';
   return h;
 }
 
-function render() {
-  if (!MONITOR_DATA || !TASK_DATA) return;
-  const selectedId = getSelectedListId();
-  let taskLists = TASK_DATA.filter(list => list.id === selectedId);
-  if (taskLists.length === 0 && TASK_DATA.length > 0) {
-    taskLists = [TASK_DATA[0]];
+function buildGraphHtml(taskList) {
+  const tasks = taskList.tasks;
+  if (tasks.length === 0) return '<div class="empty">No tasks in this list.</div>';
+  const edges = getTaskEdges(tasks);
+  const { layer, row, columns } = layoutTaskGraph(tasks, edges);
+  const critical = findCriticalPath(tasks, edges);
+  const criticalNodes = new Set(critical);
+  const criticalEdges = new Set();
+  for (let i = 1; i < critical.length; i++) criticalEdges.add(critical[i - 1] + '>' + critical[i]);
+
+  const NODE_W = 200, NODE_H = 40, COL_GAP = 70, ROW_GAP = 14, PAD = 10;
+  const maxRows = columns.reduce((m, col) => Math.max(m, col ? col.length : 0), 0);
+  const width = PAD * 2 + columns.length * NODE_W + (columns.length - 1) * COL_GAP;
+  const height = PAD * 2 + maxRows * NODE_H + (maxRows - 1) * ROW_GAP;
+  const x = (id) => PAD + layer[id] * (NODE_W + COL_GAP);
+  const y = (id) => PAD + row[id] * (NODE_H + ROW_GAP);
+
+  let svg = '<svg class="dep-graph" width="' + width + '" height="' + height + '" viewBox="0 0 ' + width + ' ' + height + '">';
+  svg += '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#484f58"></path></marker>';
+  svg += '<marker id="arrow-critical" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#f0883e"></path></marker></defs>';
+  for (const e of edges) {
+    const x1 = x(e.from) + NODE_W, y1 = y(e.from) + NODE_H / 2;
+    const x2 = x(e.to), y2 = y(e.to) + NODE_H / 2;
+    const mid = (x1 + x2) / 2;
+    const isCritical = criticalEdges.has(e.from + '>' + e.to);
+    svg += '<path class="graph-edge' + (isCritical ? ' critical' : '') + '" d="M' + x1 + ',' + y1 + ' C' + mid + ',' + y1 + ' ' + mid + ',' + y2 + ' ' + x2 + ',' + y2 + '" marker-end="url(#' + (isCritical ? 'arrow-critical' : 'arrow') + ')"></path>';
   }
-  const totalTasks = taskLists.reduce((sum, list) => sum + list.tasks.length, 0);
-  const inProgress = taskLists.reduce((sum, list) => sum + list.tasks.filter(t => t.status === 'in_progress').length, 0);
-  const completed = taskLists.reduce((sum, list) => sum + list.tasks.filter(t => t.status === 'completed').length, 0);
+  for (const task of tasks) {
+    const blockerStatus = getBlockerStatus(task, tasks);
+    const state = task.status === 'pending' ? (blockerStatus.isBlocked ? 'blocked' : 'available') : task.status;
+    const label = '#' + task.id + ' ' + (task.subject || '');
+    const shown = label.length > 26 ? label.slice(0, 25) + '\\u2026' : label;
+    svg += '<g class="graph-node ' + state + (criticalNodes.has(task.id) ? ' critical' : '') + '" transform="translate(' + x(task.id) + ',' + y(task.id) + ')" onclick="openTaskInList(' + jsArg(taskList.id) + ', ' + jsArg(task.id) + ')">';
+    svg += '<title>' + escapeHtml(label) + '</title>';
+    svg += '<rect width="' + NODE_W + '" height="' + NODE_H + '" rx="5"></rect>';
+    svg += '<text x="10" y="17">' + escapeHtml(shown) + '</text>';
+    svg += '<text class="sub" x="10" y="31">' + escapeHtml(state.replace('_', ' ') + (task.owner && task.status !== 'pending' ? ' \\u00b7 @' + task.owner : '')) + '</text>';
+    svg += '</g>';
+  }
+  svg += '</svg>';
 
-  // Count available tasks (pending + not blocked)
-  let available = 0;
-  for (const list of taskLists) {
-    for (const task of list.tasks) {
-      if (task.status === 'pending') {
-        const blockerStatus = getBlockerStatus(task, list.tasks);
-        if (!blockerStatus.isBlocked) available++;
-      }
+  let html = '<div class="task-list"><div class="task-list-header"><h2 title="' + escapeHtml(taskList.id) + '">' + escapeHtml(taskList.id) + '</h2><span class="meta">(' + tasks.length + ' tasks, ' + edges.length + ' dependencies)</span></div>';
+  html += buildWarningsHtml(taskList.id);
+  html += '<div class="graph-legend"><span class="available">\\u25a0 available</span><span class="blocked">\\u25a0 blocked</span><span class="in_progress">\\u25a0 in progress</span><span class="completed">\\u25a0 completed</span><span class="critical">\\u2501 critical path</span></div>';
+  if (critical.length > 0) {
+    html += '<div class="graph-critical">Critical path (' + critical.length + ' remaining): ' + critical.map(id => '#' + escapeHtml(id)).join(' \\u2192 ') + '</div>';
+  } else {
+    html += '<div class="graph-critical">All tasks completed</div>';
+  }
+  html += '<div class="graph-scroll">' + svg + '</div></div>';
+  return html;
+}
+
+function toggleTask(listId, taskId) {
+  const key = listId + '/' + taskId;
+  if (expandedTasks.has(key)) expandedTasks.delete(key);
+  else expandedTasks.add(key);
+  render();
+}
+
+function inlineFormat(text) {
+  text = escapeHtml(text);
+  text = text.replace(/\\*\\*(.+?)\\*\\*/g, '<strong>$1</strong>');
+  text = text.replace(/__(.+?)__/g, '<strong>$1</strong>');
+  text = text.replace(/\`([^\`]+)\`/g, '<code>$1</code>');
+  return text;
+}
+
+function renderMarkdown(text) {
+  if (!text) return '';
+  var lines = text.split('\\n');
+  var html = '';
+  var inUl = false, inOl = false, inCode = false, codeBuf = '';
+  for (var i = 0; i < lines.length; i++) {
+    var line = lines[i];
+    if (line.trim().indexOf('\`\`\`') === 0) {
+      if (inCode) { html += '<pre><code>' + escapeHtml(codeBuf.trimEnd()) + '</code></pre>'; codeBuf = ''; inCode = false; }
+      else { if (inUl) { html += '</ul>'; inUl = false; } if (inOl) { html += '</ol>'; inOl = false; } inCode = true; }
+      continue;
     }
+    if (inCode) { codeBuf += line + '\\n'; continue; }
+    var isBul = /^\\s*[-*]\\s+/.test(line);
+    var isNum = /^\\s*\\d+\\.\\s+/.test(line);
+    if (inUl && !isBul) { html += '</ul>'; inUl = false; }
+    if (inOl && !isNum) { html += '</ol>'; inOl = false; }
+    if (line.trim() === '') continue;
+    if (/^####\\s+/.test(line)) html += '<h4>' + inlineFormat(line.replace(/^####\\s+/, '')) + '</h4>';
+    else if (/^###\\s+/.test(line)) html += '<h3>' + inlineFormat(line.replace(/^###\\s+/, '')) + '</h3>';
+    else if (/^##\\s+/.test(line)) html += '<h2>' + inlineFormat(line.replace(/^##\\s+/, '')) + '</h2>';
+    else if (/^#\\s+/.test(line)) html += '<h1>' + inlineFormat(line.replace(/^#\\s+/, '')) + '</h1>';
+    else if (isBul) { if (!inUl) { html += '<ul>'; inUl = true; } html += '<li>' + inlineFormat(line.replace(/^\\s*[-*]\\s+/, '')) + '</li>'; }
+    else if (isNum) { if (!inOl) { html += '<ol>'; inOl = true; } html += '<li>' + inlineFormat(line.replace(/^\\s*\\d+\\.\\s+/, '')) + '</li>'; }
+    else html += '<p>' + inlineFormat(line) + '</p>';
+  }
+  if (inUl) html += '</ul>';
+  if (inOl) html += '</ol>';
+  if (inCode) html += '<pre><code>' + escapeHtml(codeBuf.trimEnd()) + '</code></pre>';
+  return html;
+}
+
+async function loadPrompt(listId) {
+  // Keep showing the previous text while refreshing
+  if (!promptCache[listId]) promptCache[listId] = 'loading';
+  try {
+    const resp = await fetch('/api/lists/' + encodeURIComponent(listId) + '/prompt', { cache: 'no-store' });
+    const body = await resp.json();
+    promptCache[listId] = resp.ok ? body : resp.status === 404 ? { missing: true } : { error: body.error || 'Failed: ' + resp.status };
+  } catch (err) {
+    promptCache[listId] = { error: 'Prompt unavailable (' + err.message + ')' };
+  }
+  render();
+}
+
+function togglePromptPanel() {
+  localStorage.setItem('promptCollapsed', localStorage.getItem('promptCollapsed') === 'true' ? 'false' : 'true');
+  render();
+}
+
+function editPrompt(listId) {
+  const prompt = promptCache[listId];
+  promptEditing = listId;
+  promptEditVersion = prompt && prompt.version ? prompt.version : null;
+  promptDraft = prompt && prompt.content ? prompt.content : '';
+  render();
+  const editor = document.getElementById('prompt-editor');
+  if (editor) editor.focus();
+}
+
+function cancelPromptEdit() {
+  promptEditing = null;
+  render();
+}
+
+async function savePrompt() {
+  const listId = promptEditing;
+  try {
+    const resp = await fetch('/api/lists/' + encodeURIComponent(listId) + '/prompt', {
+      method: 'PUT',
+      headers: Object.assign({ 'Content-Type': 'application/json' }, promptEditVersion ? { 'If-Match': promptEditVersion } : {}),
+      body: JSON.stringify({ content: promptDraft })
+    });
+    const result = await resp.json();
+    if (resp.status === 409) {
+      // Keep the draft open against the new version so nothing typed is lost
+      promptCache[listId] = result.version ? { content: result.content, version: result.version } : { missing: true };
+      promptEditVersion = result.version || null;
+      showToast('prompt.md changed since you started editing. Save again to replace it with your draft, or cancel to keep the new version.');
+      render();
+      return;
+    }
+    if (!resp.ok) throw new Error(result.error || 'Failed: ' + resp.status);
+    promptCache[listId] = result;
+    promptEditing = null;
+    showToast('Saved prompt.md for ' + listId);
+    render();
+  } catch (err) {
+    showToast('Could not save prompt.md: ' + err.message);
+  }
+}
+
+// The brief agents work from, shown above the selected list
+function buildPromptHtml(listId) {
+  const prompt = promptCache[listId];
+  if (prompt === undefined) { loadPrompt(listId); return ''; }
+  const editing = promptEditing === listId;
+  if (!editing) {
+    if (prompt === 'loading') return '';
+    if (prompt.missing) return MONITOR_DATA.readOnly ? '' : '<div class="prompt-add"><span onclick="editPrompt(' + jsArg(listId) + ')">+ add prompt.md</span></div>';
+    if (prompt.error) return '<div class="prompt-panel"><div class="prompt-body muted">' + escapeHtml(prompt.error) + '</div></div>';
+  }
+  const collapsed = !editing && localStorage.getItem('promptCollapsed') === 'true';
+  let h = '<div class="prompt-panel"><div class="prompt-header"><span class="prompt-title" onclick="togglePromptPanel()"><span class="' + (collapsed ? 'chevron' : 'chevron expanded') + '">\\u25B8</span>prompt.md</span>';
+  if (!editing && !MONITOR_DATA.readOnly) h += '<span class="prompt-edit" onclick="editPrompt(' + jsArg(listId) + ')">edit</span>';
+  h += '</div>';
+  if (editing) {
+    h += '<textarea id="prompt-editor" class="prompt-editor" spellcheck="false" oninput="promptDraft = this.value">' + escapeHtml(promptDraft) + '</textarea>';
+    if (prompt.content !== undefined && prompt.version !== promptEditVersion) h += '<div class="prompt-body muted">Changed on disk since you started editing.</div>';
+    h += '<div class="settings-actions"><button class="cancel-btn" onclick="cancelPromptEdit()">Cancel</button><button class="save-btn" onclick="savePrompt()">Save</button></div>';
+  } else if (!collapsed) {
+    h += '<div class="prompt-body detail-desc">' + renderMarkdown(prompt.content) + '</div>';
+  }
+  return h + '</div>';
+}
+
+async function loadTaskHistory(listId, taskId) {
+  const key = listId + '/' + taskId;
+  taskHistoryCache[key] = 'loading';
+  try {
+    const resp = await fetch('/api/history?listId=' + encodeURIComponent(listId) + '&taskId=' + encodeURIComponent(taskId), { cache: 'no-store' });
+    if (!resp.ok) throw new Error('Failed: ' + resp.status);
+    taskHistoryCache[key] = await resp.json();
+  } catch (err) {
+    taskHistoryCache[key] = 'unavailable';
+  }
+  render();
+}
+
+// Completion estimate computed server-side from LOE/complexity and observed cycle times
+function buildForecastHtml(taskListId) {
+  const f = MONITOR_DATA && MONITOR_DATA.listForecasts ? MONITOR_DATA.listForecasts[taskListId] : null;
+  if (!f) return '';
+  const title = f.remainingTasks + ' tasks left, ' + f.agents + (f.agents === 1 ? ' agent' : ' agents') +
+    '\\nCritical path: ' + formatDuration(f.criticalPathMs) +
+    '\\nCalibrated on ' + f.samples + ' completed ' + (f.samples === 1 ? 'task' : 'tasks') + (f.calibration === 'list' ? ' in this list' : ' across all lists');
+  let h = '<span class="forecast" title="' + escapeHtml(title) + '">ETA ~' + formatDuration(f.etaMs) +
+    ' <span class="range">(' + formatDuration(f.lowMs) + ' \\u2013 ' + formatDuration(f.highMs) + ')</span>';
+  // Only worth suggesting when the work isn't already bound by the critical path
+  if (f.withExtraAgentMs < f.etaMs * 0.9) h += ' <span class="range">\\u00b7 +1 agent ~' + formatDuration(f.withExtraAgentMs) + '</span>';
+  else if (f.criticalPathMs >= f.etaMs) h += ' <span class="range">\\u00b7 critical path bound</span>';
+  return h + '</span>';
+}
+
+function formatDuration(ms) {
+  const secs = Math.round(ms / 1000);
+  if (secs < 60) return secs + 's';
+  const mins = Math.floor(secs / 60);
+  if (mins < 60) return mins + 'm ' + (secs % 60) + 's';
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return hours + 'h ' + (mins % 60) + 'm';
+  return Math.floor(hours / 24) + 'd ' + (hours % 24) + 'h';
+}
+
+function describeTaskEvent(e) {
+  if (e.type === 'created') return 'created as ' + escapeHtml(e.to || 'pending');
+  if (e.type === 'removed') return 'removed (was ' + escapeHtml(e.from || 'unknown') + ')';
+  if (e.type === 'status') return escapeHtml(e.from || '?') + ' \\u2192 <span class="to">' + escapeHtml(e.to || '?') + '</span>';
+  if (e.type === 'owner') return 'owner ' + (e.from ? '@' + escapeHtml(e.from) : 'none') + ' \\u2192 ' + (e.to ? '<span class="to">@' + escapeHtml(e.to) + '</span>' : 'none');
+  if (e.type === 'report') return 'completion report added' + (e.to ? ' by @' + escapeHtml(e.to) : '');
+  return escapeHtml(e.type);
+}
+
+function buildHistoryHtml(listId, taskId) {
+  const events = taskHistoryCache[listId + '/' + taskId];
+  if (events === undefined) { loadTaskHistory(listId, taskId); return ''; }
+  if (!Array.isArray(events) || events.length === 0) return '';
+  let h = '<div class="detail-section"><div class="detail-label">History</div><div class="detail-history">';
+  const started = events.find(e => e.type === 'status' && e.to === 'in_progress');
+  const finished = events.filter(e => e.type === 'status' && e.to === 'completed').pop();
+  if (started && finished && Date.parse(finished.timestamp) >= Date.parse(started.timestamp)) {
+    h += '<div class="history-summary">Took ' + formatDuration(Date.parse(finished.timestamp) - Date.parse(started.timestamp)) + ' from start to completion</div>';
+  } else if (started && !finished) {
+    h += '<div class="history-summary">In progress for ' + formatDuration(Date.now() - Date.parse(started.timestamp)) + '</div>';
+  }
+  let prevTime = null;
+  for (const e of events) {
+    const time = Date.parse(e.timestamp);
+    const gap = prevTime !== null ? ' <span class="gap">+' + formatDuration(time - prevTime) + '</span>' : '';
+    h += '<div class="history-event"><span class="when">' + new Date(time).toLocaleString() + '</span>' + describeTaskEvent(e) + gap + '</div>';
+    prevTime = time;
+  }
+  return h + '</div></div>';
+}
+
+async function loadTaskCommits(listId, taskId) {
+  const key = listId + '/' + taskId;
+  taskCommitsCache[key] = 'loading';
+  try {
+    const resp = await fetch('/api/lists/' + encodeURIComponent(listId) + '/tasks/' + encodeURIComponent(taskId) + '/commits', { cache: 'no-store' });
+    const body = await resp.json();
+    taskCommitsCache[key] = resp.ok ? body : { error: body.error || 'Failed: ' + resp.status };
+  } catch (err) {
+    taskCommitsCache[key] = { error: 'Commits unavailable (' + err.message + ')' };
+  }
+  render();
+}
+
+async function toggleCommit(listId, hash) {
+  const key = listId + '/' + hash;
+  if (expandedCommits.has(key)) {
+    expandedCommits.delete(key);
+    render();
+    return;
+  }
+  expandedCommits.add(key);
+  if (commitDiffCache[key]) { render(); return; }
+  commitDiffCache[key] = 'loading';
+  render();
+  try {
+    const resp = await fetch('/api/lists/' + encodeURIComponent(listId) + '/commits/' + encodeURIComponent(hash), { cache: 'no-store' });
+    const body = await resp.json();
+    commitDiffCache[key] = resp.ok ? body : { error: body.error || 'Failed: ' + resp.status };
+  } catch (err) {
+    commitDiffCache[key] = { error: 'Diff unavailable (' + err.message + ')' };
+  }
+  render();
+}
+
+function buildDiffHtml(result) {
+  if (result === 'loading') return '<div class="commit-diff muted">Loading diff...</div>';
+  if (result.error) return '<div class="commit-diff muted">' + escapeHtml(result.error) + '</div>';
+  let h = '<pre class="commit-diff">';
+  for (const line of result.diff.split('\\n')) {
+    const cls = line.startsWith('+++ ') || line.startsWith('--- ') || line.startsWith('diff --git') ? 'file'
+      : line.startsWith('@@') ? 'hunk'
+      : line.startsWith('+') ? 'add'
+      : line.startsWith('-') ? 'del' : '';
+    h += '<span class="' + cls + '">' + escapeHtml(line) + '</span>\\n';
+  }
+  h += '</pre>';
+  if (result.truncated) h += '<div class="commit-diff muted">Diff truncated</div>';
+  return h;
+}
+
+function buildCommitsHtml(listId, taskId) {
+  const result = taskCommitsCache[listId + '/' + taskId];
+  if (result === undefined) { loadTaskCommits(listId, taskId); return ''; }
+  if (result === 'loading') return '';
+  let h = '<div class="detail-section"><div class="detail-label">Commits</div>';
+  if (result.error) return h + '<div class="detail-commits muted">' + escapeHtml(result.error) + '</div></div>';
+  if (result.commits.length === 0) return h + '<div class="detail-commits muted">No commits in ' + escapeHtml(result.projectDir) + ' mention #' + escapeHtml(taskId) + ' or touched its changed files while it ran</div></div>';
+  h += '<div class="detail-commits">';
+  for (const c of result.commits) {
+    const key = listId + '/' + c.hash;
+    const open = expandedCommits.has(key);
+    h += '<div class="commit" onclick="event.stopPropagation(); toggleCommit(' + jsArg(listId) + ', ' + jsArg(c.hash) + ')">' +
+      '<span class="' + (open ? 'chevron expanded' : 'chevron') + '">\\u25B8</span><span class="hash">' + escapeHtml(c.shortHash) + '</span>' +
+      '<span class="commit-subject" title="' + escapeHtml(c.subject).replace(/"/g, '&quot;') + '">' + escapeHtml(c.subject) + '</span>' +
+      '<span class="commit-meta">' + escapeHtml(c.author) + ' \\u00b7 ' + new Date(c.date).toLocaleString() + ' \\u00b7 ' + c.files.length + (c.files.length === 1 ? ' file' : ' files') + ' \\u00b7 ' +
+      c.matchedBy.map(m => m === 'message' ? 'mentions task' : 'changed files').join(', ') + '</span></div>';
+    if (open) h += buildDiffHtml(commitDiffCache[key]);
+  }
+  return h + '</div></div>';
+}
+
+async function updateTask(listId, taskId, changes) {
+  const list = TASK_DATA.find(l => l.id === listId);
+  const version = list && list.versions ? list.versions[taskId] : null;
+  try {
+    const resp = await fetch('/api/lists/' + encodeURIComponent(listId) + '/tasks/' + encodeURIComponent(taskId), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'If-Match': version || '' },
+      body: JSON.stringify(changes)
+    });
+    const result = await resp.json();
+    if (resp.status === 409) {
+      showToast('Task #' + escapeHtml(taskId) + ' changed since it was loaded. Refreshed, please try again.');
+      fetchData();
+      return;
+    }
+    if (!resp.ok) {
+      showToast('Update failed: ' + escapeHtml(result.error || String(resp.status)));
+      return;
+    }
+    if (list && list.versions && result.version) list.versions[taskId] = result.version;
+    showToast('Updated task #' + escapeHtml(taskId));
+  } catch (err) {
+    showToast('Update failed: network error');
+  }
+}
+
+function resetTask(listId, taskId) {
+  if (!confirm('Reset task #' + taskId + ' to pending and clear its owner?')) return;
+  updateTask(listId, taskId, { status: 'pending', owner: null });
+}
+
+function completeTask(listId, taskId) {
+  if (!confirm('Mark task #' + taskId + ' as completed?')) return;
+  updateTask(listId, taskId, { status: 'completed' });
+}
+
+function clearTaskOwner(listId, taskId) {
+  updateTask(listId, taskId, { owner: null });
+}
+
+function reassignTask(listId, taskId, currentOwner) {
+  const owner = prompt('Assign task #' + taskId + ' to:', currentOwner || getNextAgentName());
+  if (owner === null) return;
+  updateTask(listId, taskId, { owner: owner.trim() || null });
+}
+
+function buildTaskActionsHtml(task, listId) {
+  if (MONITOR_DATA.readOnly) return '';
+  const args = jsArg(listId) + ', ' + jsArg(task.id);
+  let h = '<div class="detail-section"><div class="detail-label">Actions</div><div class="detail-actions">';
+  if (task.status !== 'pending') h += '<button onclick="resetTask(' + args + ')">Reset to pending</button>';
+  if (task.status !== 'completed') h += '<button onclick="completeTask(' + args + ')">Mark completed</button>';
+  if (task.owner) h += '<button onclick="clearTaskOwner(' + args + ')">Clear owner</button>';
+  h += '<button onclick="reassignTask(' + args + ', ' + jsArg(task.owner || '') + ')">' + (task.owner ? 'Reassign' : 'Assign') + ' owner</button>';
+  return h + '</div></div>';
+}
+
+function buildDetailHtml(task, listId) {
+  var h = '';
+  if (task.description) {
+    h += '<div class="detail-section"><div class="detail-label">Description</div><div class="detail-desc">' + renderMarkdown(task.description) + '</div></div>';
+  }
+  var m = task.metadata;
+  if (m) {
+    var fields = [['wave','Wave'],['phase','Phase'],['epic','Epic'],['loe','LOE'],['complexity','Complexity'],['riskLevel','Risk'],['swarmLane','Lane'],['planSection','Plan Section'],['feature','Feature'],['bundleTaskNumber','Bundle #']];
+    var hasField = false;
+    var gridHtml = '';
+    for (var fi = 0; fi < fields.length; fi++) {
+      var val = m[fields[fi][0]];
+      if (val !== undefined && val !== null) {
+        hasField = true;
+        var cls = 'val';
+        if (fields[fi][0] === 'riskLevel') cls += ' risk-' + val;
+        gridHtml += '<div><span class="lbl">' + fields[fi][1] + ': </span><span class="' + cls + '">' + escapeHtml(String(val)) + '</span></div>';
+      }
+    }
+    if (hasField) {
+      h += '<div class="detail-section"><div class="detail-label">Metadata</div><div class="detail-grid">' + gridHtml + '</div>';
+      if (m.skillsHint && m.skillsHint.length > 0) {
+        h += '<div class="detail-tags">';
+        for (var si = 0; si < m.skillsHint.length; si++) h += '<span class="detail-tag">' + escapeHtml(m.skillsHint[si]) + '</span>';
+        h += '</div>';
+      }
+      h += '</div>';
+    }
+  }
+  var cr = m && m.completionReport;
+  if (cr) {
+    h += '<div class="detail-section"><div class="detail-label">Completion Report</div><div class="detail-report">';
+    h += '<div class="agent-line">';
+    if (cr.agent) h += '@' + escapeHtml(cr.agent);
+    if (cr.completedAt) h += ' \\u00b7 ' + new Date(cr.completedAt).toLocaleString();
+    h += '</div>';
+    if (cr.summary) h += '<div class="summary">' + escapeHtml(cr.summary) + '</div>';
+    if (cr.filesChanged && cr.filesChanged.length > 0) {
+      h += '<div class="sub-label">Files changed</div><ul class="detail-files">';
+      for (var fc = 0; fc < cr.filesChanged.length; fc++) h += '<li>' + escapeHtml(cr.filesChanged[fc]) + '</li>';
+      h += '</ul>';
+    }
+    if (cr.decisions && cr.decisions.length > 0) {
+      h += '<div class="sub-label">Decisions</div><ul class="detail-decisions">';
+      for (var di = 0; di < cr.decisions.length; di++) h += '<li>' + escapeHtml(cr.decisions[di]) + '</li>';
+      h += '</ul>';
+    }
+    if (cr.verification) {
+      var v = cr.verification;
+      h += '<div class="detail-verify">Build: <span class="' + (v.buildPasses ? 'pass' : 'fail') + '">' + (v.buildPasses ? 'PASS' : 'FAIL') + '</span>';
+      if (v.browserTested !== undefined) h += ' \\u00b7 Browser: <span class="' + (v.browserTested ? 'pass' : 'fail') + '">' + (v.browserTested ? 'Yes' : 'No') + '</span>';
+      if (v.notes) h += '<div style="margin-top:4px;color:#8b949e;">' + escapeHtml(v.notes) + '</div>';
+      h += '</div>';
+    }
+    h += '</div></div>';
+  }
+  var conflicts = listId ? ((MONITOR_DATA.listConflicts || {})[listId] || []).filter(function(c) { return c.taskIds.indexOf(task.id) !== -1; }) : [];
+  if (conflicts.length > 0) {
+    h += '<div class="detail-section"><div class="detail-label">File Conflicts</div>';
+    for (var ci = 0; ci < conflicts.length; ci++) {
+      var c = conflicts[ci];
+      var other = c.taskIds[0] === task.id ? c.taskIds[1] : c.taskIds[0];
+      h += '<div class="detail-conflict ' + c.severity + '">\\u26a0 Also changed by <span onclick="event.stopPropagation(); openTaskInList(' + jsArg(listId) + ', ' + jsArg(other) + ')">#' + escapeHtml(other) + '</span> (' + getConflictLabel(c) + '): ' + escapeHtml(c.files.join(', ')) + '</div>';
+    }
+    h += '</div>';
+  }
+  if ((task.blocks && task.blocks.length > 0) || (task.blockedBy && task.blockedBy.length > 0)) {
+    h += '<div class="detail-section"><div class="detail-label">Dependencies</div><div class="detail-deps">';
+    if (task.blocks && task.blocks.length > 0) h += 'Blocks: ' + task.blocks.map(function(id) { return '#' + id; }).join(', ');
+    if (task.blocks && task.blocks.length > 0 && task.blockedBy && task.blockedBy.length > 0) h += ' \\u00b7 ';
+    if (task.blockedBy && task.blockedBy.length > 0) h += 'Blocked by: ' + task.blockedBy.map(function(id) { return '#' + id; }).join(', ');
+    h += '</div></div>';
+  }
+  if (listId && (task.status === 'completed' || cr)) h += buildCommitsHtml(listId, task.id);
+  if (listId) h += buildHistoryHtml(listId, task.id);
+  if (listId) h += buildTaskActionsHtml(task, listId);
+  return h;
+}
+
+function render() {
+  if (!MONITOR_DATA || !TASK_DATA) return;
+  const selectedId = getSelectedListId();
+  let taskLists = TASK_DATA.filter(list => list.id === selectedId);
+  if (taskLists.length === 0 && TASK_DATA.length > 0) {
+    taskLists = [TASK_DATA[0]];
+  }
+  const totalTasks = taskLists.reduce((sum, list) => sum + list.tasks.length, 0);
+  const inProgress = taskLists.reduce((sum, list) => sum + list.tasks.filter(t => t.status === 'in_progress').length, 0);
+  const completed = taskLists.reduce((sum, list) => sum + list.tasks.filter(t => t.status === 'completed').length, 0);
+
+  // Count available tasks (pending + not blocked)
+  let available = 0;
+  for (const list of taskLists) {
+    for (const task of list.tasks) {
+      if (task.status === 'pending') {
+        const blockerStatus = getBlockerStatus(task, list.tasks);
+        if (!blockerStatus.isBlocked) available++;
+      }
+    }
+  }
+
+  const agentMap = {};
+  const unownedInProgress = [];
+  const seenAgentTasks = new Set();
+  for (const list of TASK_DATA) {
+    for (const task of list.tasks) {
+      if (task.status === 'in_progress') {
+        const subject = task.activeForm || task.subject || '';
+        const dedupeKey = (task.owner || '') + ':' + task.id + ':' + subject;
+        if (seenAgentTasks.has(dedupeKey)) continue;
+        seenAgentTasks.add(dedupeKey);
+        if (task.owner) {
+          if (!agentMap[task.owner]) agentMap[task.owner] = [];
+          agentMap[task.owner].push({ ...task, listId: list.id });
+        } else {
+          unownedInProgress.push({ ...task, listId: list.id });
+        }
+      }
+    }
+  }
+  const agentCount = Object.keys(agentMap).length + (unownedInProgress.length > 0 ? 1 : 0);
+
+  const launchDiv = document.getElementById('launch');
+  if (taskLists.length > 0) {
+    const currentList = taskLists[0];
+    const nextName = getNextAgentName();
+    const taskListOptions = buildTaskListOptions(currentList.id);
+    const codeMode = getCodeMode();
+    const codeDangerSel = codeMode === 'cda' ? ' selected' : '';
+    const codeRegSel = codeMode === 'claude' ? ' selected' : '';
+    const codexName = getNextCodexName();
+    launchDiv.innerHTML = '<div class="control-bar">' +
+      '<span class="title">Tasks</span><span class="divider"></span>' +
+      '<select id="task-list-select" class="task-list-select" title="' + escapeHtml(getListProjectDir(currentList.id)) + '" onchange="switchTaskList(this.value)">' + taskListOptions + '</select>' +
+      '<select class="code-mode-select" onchange="setCodeMode(this.value)">' +
+        '<option value="cda"' + codeDangerSel + '>Danger</option>' +
+        '<option value="claude"' + codeRegSel + '>Reg</option>' +
+      '</select>' +
+      '<button class="launch-btn" onclick="launchNextAvailable()">Code</button>' +
+      '<span class="agent-name" title="Next free agent name">' + escapeHtml(nextName) + '</span>' +
+      '<span class="divider"></span>' +
+      '<button class="review-btn" onclick="launchNextReview()">Review</button>' +
+      '<span class="codex-name" title="Next free review agent name">' + escapeHtml(codexName) + '</span>' +
+      '<span class="spacer"></span>' +
+      '<div class="stats"><span><span class="value available">' + available + '</span> avail</span><span><span class="value in-progress">' + inProgress + '</span> active</span><span><span class="value done">' + completed + '</span>/' + totalTasks + ' done</span></div>' +
+      '<span class="divider"></span>' + buildViewTabs() +
+      '<button class="settings-btn" onclick="openSettings()">Settings</button>' +
+    '</div>';
+  } else {
+    launchDiv.innerHTML = '<div class="control-bar"><span class="title">Tasks</span><span class="spacer"></span>' + buildViewTabs() + '<button class="settings-btn" onclick="openSettings()">Settings</button></div>';
+  }
+
+  const agentsDiv = document.getElementById('agents');
+  if (agentCount > 0 || unownedInProgress.length > 0) {
+    let agentsHtml = '<div class="agents-bar"><span class="label">Working</span>';
+    for (const [owner, tasks] of Object.entries(agentMap)) {
+      for (const task of tasks) {
+        const subject = task.activeForm || task.subject;
+        agentsHtml += '<div class="agent"><span class="spinner"></span><span class="agent-owner">@' + escapeHtml(owner) + '</span><span class="agent-id">#' + escapeHtml(task.id) + '</span><span class="agent-task" title="' + escapeHtml(subject) + '">' + escapeHtml(subject) + '</span></div>';
+      }
+    }
+    for (const task of unownedInProgress) {
+      const subject = task.activeForm || task.subject;
+      agentsHtml += '<div class="agent"><span class="spinner"></span><span class="agent-id">#' + escapeHtml(task.id) + '</span><span class="agent-task" title="' + escapeHtml(subject) + '">' + escapeHtml(subject) + '</span></div>';
+    }
+    agentsHtml += '</div>';
+    agentsDiv.innerHTML = agentsHtml + buildSessionsHtml();
+  } else {
+    agentsDiv.innerHTML = buildSessionsHtml();
+  }
+
+  const content = document.getElementById('content');
+  if (viewMode === 'archive') {
+    content.innerHTML = buildArchiveHtml();
+    document.getElementById('commands').innerHTML = '';
+    return;
+  }
+
+  if (viewMode === 'analytics') {
+    content.innerHTML = buildAnalyticsHtml();
+    document.getElementById('commands').innerHTML = '';
+    return;
+  }
+
+  if (taskLists.length === 0) {
+    agentsDiv.innerHTML = '';
+    content.innerHTML = buildOrphanedInvalidFilesHtml() + '<div class="empty">No active task lists found.<code>' + escapeHtml(buildNextAvailableCommand('my-project')) + '</code></div>';
+    document.getElementById('commands').innerHTML = '';
+    return;
+  }
+
+  if (viewMode === 'overview') {
+    content.innerHTML = buildOrphanedInvalidFilesHtml() + buildOverviewHtml();
+    document.getElementById('commands').innerHTML = '';
+    return;
+  }
+
+  if (viewMode === 'graph') {
+    content.innerHTML = buildGraphHtml(taskLists[0]);
+    document.getElementById('commands').innerHTML = '';
+    return;
+  }
+
+  if (viewMode === 'board') {
+    content.innerHTML = buildWarningsHtml(taskLists[0].id) + buildInvalidFilesHtml(taskLists[0].id, false) + buildAttentionHtml(taskLists[0]) + buildConflictsHtml(taskLists[0]) + buildBoardHtml(taskLists[0]);
+    document.getElementById('commands').innerHTML = '';
+    return;
+  }
+
+  const filters = getTaskFilters();
+  const filtering = hasActiveFilters(filters);
+  const scopeLists = filters.scope === 'all' ? TASK_DATA : taskLists;
+  let html = buildOrphanedInvalidFilesHtml() + buildFilterBarHtml(scopeLists, filters);
+  let matchedLists = 0;
+  for (const taskList of scopeLists) {
+    const visibleTasks = filtering ? taskList.tasks.filter(t => taskMatchesFilters(t, taskList, filters)) : taskList.tasks;
+    if (filters.scope === 'all' && visibleTasks.length === 0) continue;
+    matchedLists++;
+    const pendingCount = taskList.tasks.filter(t => t.status === 'pending').length;
+    const inProgressCount = taskList.tasks.filter(t => t.status === 'in_progress').length;
+    const completedCount = taskList.tasks.filter(t => t.status === 'completed').length;
+    const lastModified = new Date(taskList.lastModified).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+    const countLabel = (filtering ? visibleTasks.length + ' of ' : '') + taskList.tasks.length + ' tasks';
+
+    html += '<div class="task-list"><div class="task-list-header"><h2 title="' + escapeHtml(taskList.id) + '">' + escapeHtml(taskList.id) + '</h2><span class="meta">(' + countLabel + ', updated ' + lastModified + ')</span>' + buildForecastHtml(taskList.id) + '</div>';
+    const statusParts = [];
+    if (inProgressCount > 0) statusParts.push('<span class="active">' + inProgressCount + ' active</span>');
+    if (pendingCount > 0) statusParts.push('<span class="pending">' + pendingCount + ' pending</span>');
+    if (completedCount > 0) statusParts.push('<span class="done">' + completedCount + ' done</span>');
+    if (statusParts.length > 0) html += '<div class="status-summary">[' + statusParts.join(', ') + ']</div>';
+    if (filters.scope !== 'all') html += buildPromptHtml(taskList.id);
+    html += buildWarningsHtml(taskList.id);
+    html += buildInvalidFilesHtml(taskList.id, false);
+    html += buildAttentionHtml(taskList);
+    html += buildConflictsHtml(taskList);
+    if (visibleTasks.length === 0) html += '<div class="filter-empty">No tasks match the current filters.</div>';
+
+    for (const task of visibleTasks) {
+      const blockerStatus = getBlockerStatus(task, taskList.tasks);
+      const isAvailable = task.status === 'pending' && !blockerStatus.isBlocked;
+      const icon = task.status === 'completed' ? '\\u25cf' : task.status === 'in_progress' ? '<span class="spinner"></span>' : isAvailable ? '\\u25c9' : '\\u25cb';
+      const subject = task.status === 'in_progress' && task.activeForm ? task.activeForm : task.subject;
+      const suffixParts = [];
+      if (task.owner && task.status !== 'pending') suffixParts.push('<span class="owner">@' + escapeHtml(task.owner) + '</span>');
+      suffixParts.push(buildVerificationBadge(taskList.id, task.id));
+      if (blockerStatus.isBlocked) {
+        const blockerIds = blockerStatus.blockers.filter(b => !b.done).map(b => '#' + escapeHtml(b.id) + (b.missing ? ' (missing)' : '')).join(', ');
+        suffixParts.push('<span class="blocked">waiting on ' + blockerIds + '</span>');
+      }
+      const canLaunch = isAvailable;
+      const isReviewTask = task.subject.startsWith('REVIEW:');
+      const taskClass = isAvailable ? 'task pending available'
+        : blockerStatus.isBlocked ? 'task pending blocked'
+        : 'task ' + task.status;
+      let availableLabel = '';
+      if (canLaunch) {
+        if (isReviewTask) {
+          availableLabel = '<span class="available-label" onclick="event.stopPropagation(); launchReview(' + jsArg(taskList.id) + ', ' + jsArg(task.id) + ')">available</span>';
+        } else {
+          availableLabel = '<span class="available-label" onclick="event.stopPropagation(); launchSpecificTask(' + jsArg(taskList.id) + ', ' + jsArg(task.id) + ')">available</span>';
+        }
+      }
+      const isExp = expandedTasks.has(taskList.id + '/' + task.id);
+      const chevCls = 'chevron' + (isExp ? ' expanded' : '');
+      html += '<div class="task-item" id="task-row-' + escapeHtml(taskList.id + '/' + task.id) + '"><div class="' + taskClass + '" onclick="toggleTask(' + jsArg(taskList.id) + ', ' + jsArg(task.id) + ')">';
+      html += '<span class="' + chevCls + '">\\u25B8</span>';
+      html += '<span class="icon ' + task.status + '">' + icon + '</span><span class="id">#' + escapeHtml(task.id) + '</span><span class="subject" title="' + escapeHtml(subject) + '">' + escapeHtml(subject) + '</span><span class="suffix">' + suffixParts.join('') + availableLabel + '</span></div>';
+      if (isExp) html += '<div class="task-detail">' + buildDetailHtml(task, taskList.id) + '</div>';
+      html += '</div>';
+    }
+    html += '</div>';
+  }
+  if (matchedLists === 0) html += '<div class="filter-empty">No tasks in any list match the current filters.</div>';
+
+  // Typing and live updates re-render the whole view; keep the caret in the search box or prompt editor
+  const focused = document.activeElement;
+  const focusedId = focused && (focused.id === 'task-search' || focused.id === 'prompt-editor') ? focused.id : null;
+  const caret = focusedId ? focused.selectionStart : null;
+  const scrollTop = focusedId ? focused.scrollTop : 0;
+  content.innerHTML = html;
+  const refocus = focusedId ? document.getElementById(focusedId) : null;
+  if (refocus) {
+    refocus.focus();
+    refocus.setSelectionRange(caret, caret);
+    refocus.scrollTop = scrollTop;
+  }
+
+  const commands = document.getElementById('commands');
+  const mostRecent = taskLists[0];
+  let cmdHtml = '<h3>Quick Commands:</h3><div class="label"># Resume most recent task list:</div><code>' + escapeHtml(buildNextAvailableCommand(mostRecent.id)) + '</code>';
+  if (taskLists.length > 1) {
+    cmdHtml += '<div class="label"># Other task lists:</div>';
+    for (const list of taskLists.slice(1, 4)) {
+      cmdHtml += '<code class="dim">' + escapeHtml(buildNextAvailableCommand(list.id)) + '</code>';
+    }
+  }
+  commands.innerHTML = cmdHtml;
+}
+
+// Initialize
+window.addEventListener('hashchange', render);
+loadSettings().then(() => {
+  if (MONITOR_DATA) { render(); fetchData(); } else { fetchData(); }
+  if (viewMode === 'archive') loadArchives();
+  if (viewMode === 'analytics') loadAnalytics();
+  connectEvents();
+});`;
+
+// === Archive function ===
+// Lists from every task root are archived here; the root is recorded so a restore puts the list back
+async function archiveTaskList(taskListId: string, tasks: ClaudeTask[], root: string) {
+  try {
+    await fs.promises.mkdir(ARCHIVE_DIR, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const archivePath = path.join(ARCHIVE_DIR, `${taskListId}_${timestamp}.json`);
+    await fs.promises.writeFile(archivePath, JSON.stringify({
+      id: taskListId,
+      archivedAt: new Date().toISOString(),
+      root,
+      tasks
+    }, null, 2));
+    console.log(`[Archive] Saved ${taskListId} to ${archivePath}`);
+  } catch (error) {
+    console.error(`[Archive] Failed to archive ${taskListId}:`, error);
+  }
+}
+
+// === Archive browsing ===
+interface ArchivedTaskList {
+  file: string;
+  id: string;
+  archivedAt: string;
+  root?: string;
+  tasks: ClaudeTask[];
+}
+
+interface ArchiveSummary {
+  file: string;
+  id: string;
+  archivedAt: string;
+  taskCount: number;
+  pendingCount: number;
+  inProgressCount: number;
+  completedCount: number;
+}
+
+function readArchive(file: string): { success: boolean; status: number; error?: string; archive?: ArchivedTaskList } {
+  const notFound = { success: false, status: 404, error: `Archive not found: ${file}` };
+  // Archive names come straight from the URL, so only plain file names are accepted
+  if (!file.endsWith('.json') || path.basename(file) !== file) return notFound;
+  let parsed;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path.join(ARCHIVE_DIR, file), 'utf-8'));
+  } catch {
+    return notFound;
+  }
+  if (typeof parsed !== 'object' || parsed === null || typeof parsed.id !== 'string' || !Array.isArray(parsed.tasks)) return notFound;
+  // Same checks as live task files, so a hand-edited archive can't crash the summary or a restore
+  for (let i = 0; i < parsed.tasks.length; i++) {
+    const error = validateTaskShape(parsed.tasks[i]);
+    if (error) return { success: false, status: 400, error: `Invalid task at index ${i} in ${file}: ${error}` };
+  }
+  return {
+    success: true,
+    status: 200,
+    archive: {
+      file,
+      id: parsed.id,
+      archivedAt: typeof parsed.archivedAt === 'string' ? parsed.archivedAt : '',
+      root: typeof parsed.root === 'string' ? parsed.root : undefined,
+      tasks: parsed.tasks,
+    },
+  };
+}
+
+function listArchives(): ArchiveSummary[] {
+  if (!fs.existsSync(ARCHIVE_DIR)) return [];
+
+  const summaries: ArchiveSummary[] = [];
+  for (const file of fs.readdirSync(ARCHIVE_DIR)) {
+    const archive = readArchive(file).archive;
+    if (!archive) continue;
+    summaries.push({
+      file,
+      id: archive.id,
+      archivedAt: archive.archivedAt,
+      taskCount: archive.tasks.length,
+      pendingCount: archive.tasks.filter(t => t.status === 'pending').length,
+      inProgressCount: archive.tasks.filter(t => t.status === 'in_progress').length,
+      completedCount: archive.tasks.filter(t => t.status === 'completed').length,
+    });
+  }
+
+  return summaries.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+function restoreArchive(file: string): { success: boolean; status: number; error?: string; listId?: string; path?: string; taskCount?: number } {
+  const result = readArchive(file);
+  const archive = result.archive;
+  if (!archive) {
+    return { success: false, status: result.status, error: result.error };
+  }
+  if (!isValidListId(archive.id)) {
+    return { success: false, status: 400, error: `Invalid task list id: ${archive.id}` };
+  }
+  for (const task of archive.tasks) {
+    if (typeof task.id !== 'string' || !/^[A-Za-z0-9._-]+$/.test(task.id)) {
+      return { success: false, status: 400, error: `Invalid task id in archive: ${String(task.id)}` };
+    }
+  }
+
+  // Back to the root it came from while that root is still configured, otherwise the first root
+  const existingDir = getListDir(archive.id);
+  if (existingDir && fs.readdirSync(existingDir).some(f => f.endsWith('.json'))) {
+    return { success: false, status: 409, error: `Task list ${archive.id} already exists` };
+  }
+  const root = archive.root && isTaskRoot(archive.root) ? archive.root : currentConfig.taskRoots[0].path;
+  const listPath = existingDir || path.join(root, archive.id);
+
+  try {
+    fs.mkdirSync(listPath, { recursive: true });
+    for (const task of archive.tasks) {
+      fs.writeFileSync(path.join(listPath, `${task.id}.json`), JSON.stringify(task, null, 2));
+    }
+  } catch (err) {
+    return { success: false, status: 500, error: `Failed to restore ${archive.id}: ${(err as Error).message}` };
+  }
+
+  console.log(`[Archive] Restored ${file} to ${listPath}`);
+  indexTaskListDir(listPath);
+  scheduleWriteFiles();
+  return { success: true, status: 200, listId: archive.id, path: listPath, taskCount: archive.tasks.length };
+}
+
+// === Task file reading ===
+interface TaskFileDiagnostic {
+  listId: string;
+  path: string;
+  file: string;
+  error: string;
+  // 1-based position of a JSON syntax error
+  line?: number;
+  column?: number;
+  detectedAt: string;
+}
+
+type TaskFileResult = { task: ClaudeTask; version: string } | { error: string; line?: number; column?: number; missing?: boolean };
+
+// Numeric IDs in numeric order ("9" before "10"), anything else alphabetically after them
+function compareTaskIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function validateTaskShape(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'Task file must contain a JSON object';
+  const task = value as Record<string, unknown>;
+  if (typeof task.id !== 'string' || task.id.trim() === '') return 'id must be a non-empty string';
+  if (typeof task.subject !== 'string') return 'subject must be a string';
+  if (!TASK_STATUSES.includes(task.status as ClaudeTask['status'])) return `status must be one of ${TASK_STATUSES.join(', ')}`;
+  for (const key of ['description', 'activeForm', 'owner']) {
+    if (task[key] !== undefined && typeof task[key] !== 'string') return `${key} must be a string`;
+  }
+  for (const key of ['blocks', 'blockedBy']) {
+    const ids = task[key];
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) return `${key} must be an array of task ID strings`;
+  }
+  if (task.metadata !== undefined && (typeof task.metadata !== 'object' || task.metadata === null || Array.isArray(task.metadata))) {
+    return 'metadata must be an object';
+  }
+  return null;
+}
+
+function parseTaskFile(filePath: string): TaskFileResult {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    return { error: (err as Error).message, missing: code === 'ENOENT' || code === 'EISDIR' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    // Newer V8 reports a character offset, Node 20 often doesn't; only a truncated file is known
+    // to fail at its end, so other errors without an offset get no line or column
+    const message = (err as Error).message;
+    const match = message.match(/position (\d+)/);
+    if (!match && !message.includes('Unexpected end of JSON input')) return { error: message };
+    const offset = match ? parseInt(match[1], 10) : content.length;
+    const before = content.slice(0, offset).split('\n');
+    return { error: content.trim() === '' ? 'File is empty' : message, line: before.length, column: before[before.length - 1].length + 1 };
+  }
+
+  const invalid = validateTaskShape(parsed);
+  return invalid ? { error: invalid } : { task: parsed as ClaudeTask, version: contentVersion(content) };
+}
+
+function readTaskFile(filePath: string): ClaudeTask | null {
+  const result = parseTaskFile(filePath);
+  return 'task' in result ? result.task : null;
+}
+
+// === Task file index ===
+// Parsed task files keyed by absolute path. Watcher events update single entries,
+// so a change re-reads only the affected file instead of the whole tasks tree.
+interface IndexedTaskFile {
+  listId: string;
+  root: string;
+  task: ClaudeTask;
+  mtime: Date;
+  version: string;
+}
+
+const taskFileIndex = new Map<string, IndexedTaskFile>();
+// Files that failed to parse or validate, keyed by path; rechecked on their next change
+const taskFileDiagnostics = new Map<string, TaskFileDiagnostic>();
+
+function isTaskRoot(dirPath: string): boolean {
+  return currentConfig.taskRoots.some(r => r.path === dirPath);
+}
+
+// A list ID is one directory name; route parameters are decoded, so "../x", ".." and
+// ".archive" reach here and must not resolve to a directory
+function isValidListId(listId: string): boolean {
+  return listId !== '' && listId !== '.' && listId !== '..' && listId !== '.archive' && path.basename(listId) === listId;
+}
+
+// First configured root holding a directory for the list; the same ID in later roots is shadowed
+function findListRoot(listId: string): string | null {
+  if (!isValidListId(listId)) return null;
+  for (const root of currentConfig.taskRoots) {
+    try {
+      if (fs.statSync(path.join(root.path, listId)).isDirectory()) return root.path;
+    } catch {
+      // Not in this root
+    }
+  }
+  return null;
+}
+
+function getListDir(listId: string): string | null {
+  const root = findListRoot(listId);
+  return root ? path.join(root, listId) : null;
+}
+
+function getTaskListIdForFile(filePath: string): string | null {
+  if (!filePath.endsWith('.json')) return null;
+  const listDir = path.dirname(filePath);
+  const root = path.dirname(listDir);
+  if (!isTaskRoot(root)) return null;
+  const listId = path.basename(listDir);
+  if (listId === '.archive' || findListRoot(listId) !== root) return null;
+  return listId;
+}
+
+function indexTaskFile(filePath: string): void {
+  const listId = getTaskListIdForFile(filePath);
+  if (!listId) return;
+
+  const result = parseTaskFile(filePath);
+  if (!('task' in result)) {
+    taskFileIndex.delete(filePath);
+    if (result.missing) {
+      taskFileDiagnostics.delete(filePath);
+      return;
+    }
+    if (taskFileDiagnostics.get(filePath)?.error !== result.error) {
+      console.warn(`[Tasks] Invalid task file ${filePath}: ${result.error}`);
+    }
+    taskFileDiagnostics.set(filePath, {
+      listId,
+      path: filePath,
+      file: path.basename(filePath),
+      error: result.error,
+      line: result.line,
+      column: result.column,
+      detectedAt: new Date().toISOString(),
+    });
+    return;
+  }
+  const task = result.task;
+  taskFileDiagnostics.delete(filePath);
+
+  try {
+    const stat = fs.statSync(filePath);
+    taskFileIndex.set(filePath, { listId, root: path.dirname(path.dirname(filePath)), task, mtime: stat.mtime, version: result.version });
+    trackTaskTransitions(listId, task, stat.mtime);
+  } catch {
+    taskFileIndex.delete(filePath);
+  }
+}
+
+// Hashes the content rather than using mtime and size: with coarse mtimes, a same-size edit
+// made within the same second would otherwise keep its old version
+function contentVersion(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+function findTaskFile(listId: string, taskId: string): string | null {
+  for (const [filePath, entry] of taskFileIndex) {
+    if (entry.listId === listId && entry.task.id === taskId) return filePath;
+  }
+  return null;
+}
+
+function unindexTaskFile(filePath: string): void {
+  const entry = taskFileIndex.get(filePath);
+  taskFileIndex.delete(filePath);
+  taskFileDiagnostics.delete(filePath);
+  if (entry) trackTaskRemoval(entry.listId, entry.task);
+}
+
+function indexTaskListDir(listPath: string): void {
+  try {
+    for (const file of fs.readdirSync(listPath)) {
+      if (file.endsWith('.json')) indexTaskFile(path.join(listPath, file));
+    }
+  } catch {
+    // Directory vanished between the event and the read
+  }
+}
+
+function unindexTaskListDir(listPath: string): void {
+  for (const filePath of taskFileIndex.keys()) {
+    if (path.dirname(filePath) === listPath) unindexTaskFile(filePath);
+  }
+  for (const filePath of taskFileDiagnostics.keys()) {
+    if (path.dirname(filePath) === listPath) taskFileDiagnostics.delete(filePath);
+  }
+}
+
+// Re-reads a list from the root that currently owns it, e.g. after a directory with the
+// same ID appears in or disappears from an earlier root. History only sees real changes.
+function reindexTaskList(listId: string): void {
+  for (const [filePath, entry] of taskFileIndex) {
+    if (entry.listId === listId) taskFileIndex.delete(filePath);
+  }
+  const listDir = getListDir(listId);
+  if (listDir) indexTaskListDir(listDir);
+}
+
+// Full scan, needed at startup and when the task roots change; the watcher keeps the index current otherwise
+function buildTaskIndex(): void {
+  taskFileIndex.clear();
+  taskFileDiagnostics.clear();
+
+  for (const root of currentConfig.taskRoots) {
+    if (!fs.existsSync(root.path)) continue;
+
+    const listDirs = fs.readdirSync(root.path, { withFileTypes: true });
+
+    for (const dir of listDirs) {
+      if ((!dir.isDirectory() && !dir.isSymbolicLink()) || dir.name === '.archive') continue;
+      indexTaskListDir(path.join(root.path, dir.name));
+    }
+  }
+}
+
+let taskWatcher: chokidar.FSWatcher | null = null;
+
+// Called after a config change; order matters too since it decides which root wins a shared list ID
+function applyTaskRoots(previous: TaskRoot[]): void {
+  const before = previous.map(r => r.path);
+  const after = currentConfig.taskRoots.map(r => r.path);
+  if (before.join('\n') === after.join('\n')) return;
+
+  if (taskWatcher) {
+    const removed = before.filter(p => !after.includes(p));
+    const added = after.filter(p => !before.includes(p));
+    if (removed.length > 0) taskWatcher.unwatch(removed);
+    if (added.length > 0) taskWatcher.add(added);
+  }
+  buildTaskIndex();
+  console.log(`[Watcher] Task roots changed, now watching: ${after.join(', ')}`);
+}
+
+function getTaskLists(): ClaudeTaskList[] {
+  const grouped = new Map<string, { tasks: ClaudeTask[]; lastModified: Date; versions: Record<string, string>; root: string }>();
+
+  for (const entry of taskFileIndex.values()) {
+    let group = grouped.get(entry.listId);
+    if (!group) {
+      group = { tasks: [], lastModified: new Date(0), versions: {}, root: entry.root };
+      grouped.set(entry.listId, group);
+    }
+    group.tasks.push(entry.task);
+    group.versions[entry.task.id] = entry.version;
+    if (entry.mtime > group.lastModified) {
+      group.lastModified = entry.mtime;
+    }
+  }
+
+  const taskLists: ClaudeTaskList[] = [];
+
+  for (const [listId, { tasks, lastModified, versions, root }] of grouped) {
+    const sortedTasks = tasks.sort((a, b) => compareTaskIds(a.id, b.id));
+
+    // Cache the task data for archiving when files are deleted
+    taskDataCache.set(listId, { tasks: sortedTasks, lastModified, root });
+
+    taskLists.push({
+      id: listId,
+      tasks: sortedTasks,
+      lastModified,
+      root,
+      projectDir: resolveProjectDir(listId, root),
+      versions,
+    });
+  }
+
+  return taskLists.sort(
+    (a, b) => b.lastModified.getTime() - a.lastModified.getTime()
+  );
+}
+
+function getAllTaskListSummaries(taskLists: ClaudeTaskList[]): TaskListSummary[] {
+  return taskLists.map((list) => {
+    const listPath = path.join(list.root, list.id);
+    const root = currentConfig.taskRoots.find(r => r.path === list.root);
+    return {
+      id: list.id,
+      path: listPath,
+      root: list.root,
+      rootLabel: root?.label || list.root,
+      projectDir: list.projectDir,
+      taskCount: list.tasks.length,
+      pendingCount: list.tasks.filter(t => t.status === 'pending').length,
+      inProgressCount: list.tasks.filter(t => t.status === 'in_progress').length,
+      completedCount: list.tasks.filter(t => t.status === 'completed').length,
+      lastModified: list.lastModified,
+      hasPrompt: fs.existsSync(path.join(listPath, PROMPT_FILE))
+    };
+  });
+}
+
+// === Task writes ===
+// Edits from the dashboard go through here. Writes are atomic (temp file + rename) and
+// rejected when the file no longer matches the version the client last saw.
+type TaskChanges = { [K in keyof ClaudeTask]?: ClaudeTask[K] | null };
+
+const TASK_STATUSES: ClaudeTask['status'][] = ['pending', 'in_progress', 'completed'];
+
+function validateTaskChanges(input: Record<string, unknown>): { valid: boolean; changes?: TaskChanges; error?: string } {
+  const changes: TaskChanges = {};
+  const isStringArray = (v: unknown) => Array.isArray(v) && v.every(item => typeof item === 'string');
+
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case 'id':
+        return { valid: false, error: 'id cannot be changed' };
+      case 'status':
+        if (!TASK_STATUSES.includes(value as ClaudeTask['status'])) {
+          return { valid: false, error: `status must be one of ${TASK_STATUSES.join(', ')}` };
+        }
+        changes.status = value as ClaudeTask['status'];
+        break;
+      case 'owner':
+        if (value !== null && (typeof value !== 'string' || value.trim().length === 0)) {
+          return { valid: false, error: 'owner must be a non-empty string, or null to clear it' };
+        }
+        changes.owner = value === null ? null : (value as string).trim();
+        break;
+      case 'subject':
+        if (typeof value !== 'string' || value.trim().length === 0) {
+          return { valid: false, error: 'subject must be a non-empty string' };
+        }
+        changes.subject = value;
+        break;
+      case 'description':
+        if (typeof value !== 'string') {
+          return { valid: false, error: 'description must be a string' };
+        }
+        changes.description = value;
+        break;
+      case 'activeForm':
+        if (value !== null && typeof value !== 'string') {
+          return { valid: false, error: 'activeForm must be a string, or null to clear it' };
+        }
+        changes.activeForm = value as string | null;
+        break;
+      case 'blocks':
+      case 'blockedBy':
+        if (!isStringArray(value)) {
+          return { valid: false, error: `${key} must be an array of task ID strings` };
+        }
+        changes[key] = value as string[];
+        break;
+      case 'metadata':
+        if (value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+          return { valid: false, error: 'metadata must be an object, or null to clear it' };
+        }
+        changes.metadata = value as Record<string, unknown> | null;
+        break;
+      default:
+        return { valid: false, error: `Unknown task field: ${key}` };
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { valid: false, error: 'No changes given' };
+  }
+  return { valid: true, changes };
+}
+
+function writeFileAtomic(filePath: string, content: string): void {
+  // The temp name doesn't end in .json, so the watcher ignores it until the rename lands
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
+
+function updateTask(listId: string, taskId: string, changes: TaskChanges, expectedVersion: string): { success: boolean; status: number; error?: string; task?: ClaudeTask; version?: string } {
+  const filePath = findTaskFile(listId, taskId);
+  if (!filePath) {
+    return { success: false, status: 404, error: `Task ${taskId} not found in ${listId}` };
+  }
+
+  // Re-read from disk rather than trusting the index, which may lag the watcher
+  const current = parseTaskFile(filePath);
+  if ('missing' in current && current.missing) {
+    return { success: false, status: 404, error: `Task ${taskId} not found in ${listId}` };
+  }
+  if (!('task' in current) || current.version !== expectedVersion) {
+    indexTaskFile(filePath);
+    return 'task' in current
+      ? { success: false, status: 409, error: `Task ${taskId} changed since it was last read`, task: current.task, version: current.version }
+      : { success: false, status: 409, error: `Task ${taskId} changed since it was last read and is no longer valid: ${current.error}` };
+  }
+
+  const updated: Record<string, unknown> = { ...current.task };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete updated[key];
+    else updated[key] = value;
+  }
+
+  const content = JSON.stringify(updated, null, 2);
+  try {
+    writeFileAtomic(filePath, content);
+  } catch (err) {
+    return { success: false, status: 500, error: `Failed to write task ${taskId}: ${(err as Error).message}` };
+  }
+
+  console.log(`[Tasks] Updated ${listId}#${taskId}: ${Object.keys(changes).join(', ')}`);
+  indexTaskFile(filePath);
+  scheduleWriteFiles();
+  return { success: true, status: 200, task: updated as unknown as ClaudeTask, version: contentVersion(content) };
+}
+
+// === List prompts ===
+// Each list directory may hold a prompt.md with the brief agents work from. Writes use the same
+// version check as task updates, so an edit never silently overwrites an agent's changes.
+const PROMPT_FILE = 'prompt.md';
+const PROMPT_MAX_BYTES = 256 * 1024;
+
+function readListPrompt(listId: string): { success: boolean; status: number; error?: string; content?: string; version?: string } {
+  const listPath = getListDir(listId);
+  if (!listPath) {
+    return { success: false, status: 404, error: `Task list not found: ${listId}` };
+  }
+  const promptPath = path.join(listPath, PROMPT_FILE);
+  try {
+    const content = fs.readFileSync(promptPath, 'utf-8');
+    return { success: true, status: 200, content, version: contentVersion(content) };
+  } catch {
+    return { success: false, status: 404, error: `No ${PROMPT_FILE} in ${listId}` };
+  }
+}
+
+function writeListPrompt(listId: string, content: string, expectedVersion: string | undefined): { success: boolean; status: number; error?: string; content?: string; version?: string } {
+  const listPath = getListDir(listId);
+  if (!listPath) {
+    return { success: false, status: 404, error: `Task list not found: ${listId}` };
+  }
+  if (Buffer.byteLength(content) > PROMPT_MAX_BYTES) {
+    return { success: false, status: 413, error: `${PROMPT_FILE} must be at most ${PROMPT_MAX_BYTES / 1024} KB` };
+  }
+
+  // Creating a prompt needs no version; replacing one must name the version last read
+  const current = readListPrompt(listId);
+  if (current.success && expectedVersion === undefined) {
+    return { success: false, status: 428, error: `Send the ${PROMPT_FILE} version you last read, as an If-Match header or a "version" field` };
+  }
+  if (current.success ? current.version !== expectedVersion : expectedVersion !== undefined) {
+    return { success: false, status: 409, error: `${PROMPT_FILE} in ${listId} changed since it was last read`, content: current.content, version: current.version };
+  }
+
+  const promptPath = path.join(listPath, PROMPT_FILE);
+  try {
+    writeFileAtomic(promptPath, content);
+  } catch (err) {
+    return { success: false, status: 500, error: `Failed to write ${PROMPT_FILE}: ${(err as Error).message}` };
+  }
+  console.log(`[Tasks] Updated ${listId}/${PROMPT_FILE}`);
+  scheduleWriteFiles();
+  return { success: true, status: 200, content, version: contentVersion(content) };
+}
+
+async function handlePromptWrite(req: http.IncomingMessage, res: http.ServerResponse, listId: string): Promise<void> {
+  let input: Record<string, unknown>;
+  try {
+    input = await readJsonBody(req);
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message });
+    return;
+  }
+  if (typeof input.content !== 'string') {
+    sendJson(res, 400, { error: 'content must be a string' });
+    return;
+  }
+  const version = req.headers['if-match'] || input.version;
+  if (version !== undefined && (typeof version !== 'string' || version.length === 0)) {
+    sendJson(res, 400, { error: 'version must be a non-empty string' });
+    return;
+  }
+
+  if (!getListDir(listId)) {
+    sendJson(res, 404, { error: `Task list not found: ${listId}` });
+    return;
+  }
+
+  // Under the list lock, so two editors can't both pass the version check before either writes
+  const content = input.content;
+  let result: ReturnType<typeof writeListPrompt>;
+  try {
+    result = await withListLock(listId, () => writeListPrompt(listId, content, version === undefined ? undefined : version.replace(/^"|"$/g, '')));
+  } catch (err) {
+    sendJson(res, 503, { error: (err as Error).message });
+    return;
+  }
+  sendJson(res, result.status, result.success
+    ? { content: result.content, version: result.version }
+    : { error: result.error, content: result.content, version: result.version });
+}
+
+// === Task claiming ===
+// Agents ask the monitor for work instead of picking it themselves, so two agents
+// started together can't take the same task. A lock file in the list directory
+// serializes claims, including across several monitor processes.
+const LIST_LOCK_STALE_MS = 10000;
+const LIST_LOCK_RETRY_MS = 50;
+const LIST_LOCK_MAX_ATTEMPTS = 40;
+
+async function withListLock<T>(listId: string, fn: () => T): Promise<T> {
+  const listDir = getListDir(listId);
+  if (!listDir) throw new Error(`Task list not found: ${listId}`);
+  const lockPath = path.join(listDir, '.monitor.lock');
+  for (let attempt = 1; ; attempt++) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      if (attempt >= LIST_LOCK_MAX_ATTEMPTS) throw new Error(`Timed out waiting for the lock on ${listId}`);
+      try {
+        // A crashed holder leaves its lock behind; take it over once it is clearly stale
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LIST_LOCK_STALE_MS) {
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      await new Promise(resolve => setTimeout(resolve, LIST_LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+// Same rule as the dashboard's getBlockerStatus(): a missing blocker never counts as done
+function isTaskAvailable(task: ClaudeTask, byId: Map<string, ClaudeTask>): boolean {
+  return task.status === 'pending' && (task.blockedBy || []).every(id => byId.get(id)?.status === 'completed');
+}
+
+function claimTask(listId: string, agent: string, taskId?: string): { success: boolean; status: number; error?: string; task?: ClaudeTask; version?: string } {
+  const listPath = getListDir(listId);
+  // Refresh this list from disk under the lock rather than trusting the debounced index
+  if (listPath) indexTaskListDir(listPath);
+
+  const entries = [...taskFileIndex.values()].filter(e => e.listId === listId);
+  if (entries.length === 0) {
+    return { success: false, status: 404, error: `Task list not found: ${listId}` };
+  }
+
+  const byId = new Map(entries.map(e => [e.task.id, e.task] as [string, ClaudeTask]));
+  const candidates = entries
+    .filter(e => isTaskAvailable(e.task, byId) && (taskId === undefined || e.task.id === taskId))
+    .sort((a, b) => compareTaskIds(a.task.id, b.task.id));
+  if (candidates.length === 0) {
+    return {
+      success: false,
+      status: 409,
+      error: taskId === undefined ? `No available task in ${listId}` : `Task ${taskId} is not available in ${listId}`,
+    };
+  }
+
+  const chosen = candidates[0];
+  const result = updateTask(listId, chosen.task.id, { status: 'in_progress', owner: agent }, chosen.version);
+  if (result.success) {
+    console.log(`[Tasks] ${agent} claimed ${listId}#${chosen.task.id}`);
+  }
+  return result;
+}
+
+async function handleTaskClaim(req: http.IncomingMessage, res: http.ServerResponse, listId: string): Promise<void> {
+  let input: Record<string, unknown>;
+  try {
+    input = await readJsonBody(req);
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message });
+    return;
+  }
+
+  if (typeof input.agent !== 'string' || input.agent.trim().length === 0) {
+    sendJson(res, 400, { error: 'agent must be a non-empty string' });
+    return;
+  }
+  if (input.taskId !== undefined && typeof input.taskId !== 'string') {
+    sendJson(res, 400, { error: 'taskId must be a string' });
+    return;
+  }
+  if (!getListDir(listId)) {
+    sendJson(res, 404, { error: `Task list not found: ${listId}` });
+    return;
+  }
+
+  const agent = input.agent.trim();
+  const taskId = input.taskId as string | undefined;
+  let result: ReturnType<typeof claimTask>;
+  try {
+    result = await withListLock(listId, () => claimTask(listId, agent, taskId));
+  } catch (err) {
+    sendJson(res, 503, { error: (err as Error).message });
+    return;
+  }
+  sendJson(res, result.status, result.success
+    ? { task: result.task, version: result.version }
+    : { error: result.error });
+}
+
+async function handleTaskUpdate(req: http.IncomingMessage, res: http.ServerResponse, listId: string, taskId: string): Promise<void> {
+  let input: Record<string, unknown>;
+  try {
+    input = await readJsonBody(req);
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message });
+    return;
+  }
+
+  const { version: bodyVersion, ...fields } = input;
+  const version = req.headers['if-match'] || bodyVersion;
+  if (typeof version !== 'string' || version.length === 0) {
+    sendJson(res, 428, { error: 'Send the task version you last read, as an If-Match header or a "version" field' });
+    return;
+  }
+
+  const validation = validateTaskChanges(fields);
+  if (!validation.valid || !validation.changes) {
+    sendJson(res, 400, { error: validation.error });
+    return;
+  }
+
+  if (!getListDir(listId)) {
+    sendJson(res, 404, { error: `Task list not found: ${listId}` });
+    return;
+  }
+
+  // Under the same lock as claims, so a claim can't land between the version check and the write
+  const changes = validation.changes;
+  let result: ReturnType<typeof updateTask>;
+  try {
+    result = await withListLock(listId, () => updateTask(listId, taskId, changes, version.replace(/^"|"$/g, '')));
+  } catch (err) {
+    sendJson(res, 503, { error: (err as Error).message });
+    return;
+  }
+  sendJson(res, result.status, result.success
+    ? { task: result.task, version: result.version }
+    : { error: result.error, task: result.task, version: result.version });
+}
+
+// === Agent name registry ===
+// The server hands out agent names so that tabs, teammates and scripts never start two
+// agents under the same name. A lease taken for a task is released once that task completes.
+// Otherwise a lease holds its name until it expires or the agent releases it, so the name
+// stays reserved between tasks. An expired lease is kept while its agent still owns an
+// in_progress task.
+type AgentPool = 'agent' | 'codex';
+
+interface AgentLease {
+  name: string;
+  pool: AgentPool;
+  leasedAt: string;
+  expiresAt: string;
+  listId?: string;
+  taskId?: string;
+}
+
+interface AgentRegistrySnapshot {
+  next: Record<AgentPool, string>;
+  leases: AgentLease[];
+}
+
+const AGENT_LEASES_FILE = path.join(STATE_DIR, 'agent-leases.json');
+const AGENT_LEASE_DEFAULT_SECONDS = 600;
+const AGENT_LEASE_MAX_SECONDS = 86400;
+const AGENT_LEASE_PRUNE_MS = 30000;
+
+const agentLeases = new Map<string, AgentLease>();
+
+function loadAgentLeases(): void {
+  try {
+    if (!fs.existsSync(AGENT_LEASES_FILE)) return;
+    const parsed = JSON.parse(fs.readFileSync(AGENT_LEASES_FILE, 'utf-8'));
+    if (!Array.isArray(parsed)) return;
+    for (const lease of parsed) {
+      if (typeof lease?.name === 'string' && (lease.pool === 'agent' || lease.pool === 'codex') && typeof lease.expiresAt === 'string') {
+        agentLeases.set(lease.name, lease);
+      }
+    }
+  } catch (err) {
+    console.error('[Agents] Failed to load leases:', err);
+  }
+}
+
+function saveAgentLeases(): void {
+  try {
+    fs.writeFileSync(AGENT_LEASES_FILE, JSON.stringify([...agentLeases.values()], null, 2));
+  } catch (err) {
+    console.error('[Agents] Failed to save leases:', err);
+  }
+}
+
+function getBusyOwners(): Set<string> {
+  const owners = new Set<string>();
+  for (const entry of taskFileIndex.values()) {
+    if (entry.task.status === 'in_progress' && entry.task.owner) owners.add(entry.task.owner);
+  }
+  return owners;
+}
+
+// A review is often leased for a task that is already completed, so only a completion
+// recorded after the lease was taken counts
+function isLeasedTaskCompleted(lease: AgentLease): boolean {
+  if (!lease.listId || !lease.taskId) return false;
+  const changes = taskStatusChanges.get(`${lease.listId}/${lease.taskId}`) || [];
+  const completion = changes.filter(c => c.status === 'completed').pop();
+  return !!completion && completion.time >= Date.parse(lease.leasedAt);
+}
+
+// Returns true when a lease was released
+function pruneAgentLeases(busy: Set<string>): boolean {
+  const now = Date.now();
+  let changed = false;
+  for (const lease of agentLeases.values()) {
+    const reason = isLeasedTaskCompleted(lease) ? 'task completed'
+      : !busy.has(lease.name) && !(Date.parse(lease.expiresAt) > now) ? 'lease expired'
+      : null;
+    if (!reason) continue;
+    agentLeases.delete(lease.name);
+    console.log(`[Agents] Released ${lease.name} (${reason})`);
+    changed = true;
+  }
+  return changed;
+}
+
+// Same order the dashboard counters used: agentNames first, then agent-<n> once they run out
+function nextAgentName(pool: AgentPool, busy: Set<string>): string {
+  const prefix = pool === 'codex' ? 'codex-' : '';
+  const taken = (name: string) => busy.has(name) || agentLeases.has(name);
+  for (const base of currentConfig.agentNames) {
+    if (!taken(prefix + base)) return prefix + base;
+  }
+  for (let n = currentConfig.agentNames.length + 1; ; n++) {
+    if (!taken(`${prefix}agent-${n}`)) return `${prefix}agent-${n}`;
+  }
+}
+
+function getAgentRegistry(): AgentRegistrySnapshot {
+  const busy = getBusyOwners();
+  if (pruneAgentLeases(busy)) saveAgentLeases();
+  return {
+    next: { agent: nextAgentName('agent', busy), codex: nextAgentName('codex', busy) },
+    leases: [...agentLeases.values()],
+  };
+}
+
+function leaseAgentName(input: Record<string, unknown>): { success: boolean; status: number; error?: string; lease?: AgentLease } {
+  const pool = input.pool === undefined ? 'agent' : input.pool;
+  if (pool !== 'agent' && pool !== 'codex') {
+    return { success: false, status: 400, error: 'pool must be "agent" or "codex"' };
+  }
+  const ttlSeconds = input.ttlSeconds === undefined ? AGENT_LEASE_DEFAULT_SECONDS : Number(input.ttlSeconds);
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > AGENT_LEASE_MAX_SECONDS) {
+    return { success: false, status: 400, error: `ttlSeconds must be between 1 and ${AGENT_LEASE_MAX_SECONDS}` };
+  }
+  if (input.listId !== undefined && input.listId !== null && typeof input.listId !== 'string') {
+    return { success: false, status: 400, error: 'listId must be a string' };
+  }
+  if (input.taskId !== undefined && input.taskId !== null && typeof input.taskId !== 'string') {
+    return { success: false, status: 400, error: 'taskId must be a string' };
+  }
+
+  const busy = getBusyOwners();
+  pruneAgentLeases(busy);
+  const now = Date.now();
+  const lease: AgentLease = {
+    name: nextAgentName(pool, busy),
+    pool,
+    leasedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+    listId: typeof input.listId === 'string' ? input.listId : undefined,
+    taskId: typeof input.taskId === 'string' ? input.taskId : undefined,
+  };
+  agentLeases.set(lease.name, lease);
+  saveAgentLeases();
+  console.log(`[Agents] Leased ${lease.name} until ${lease.expiresAt}`);
+  // Dashboards show the next free name, which just changed
+  scheduleWriteFiles();
+  return { success: true, status: 200, lease };
+}
+
+function releaseAgentName(name: string): { success: boolean; status: number; error?: string } {
+  if (!agentLeases.delete(name)) {
+    return { success: false, status: 404, error: `No lease for ${name}` };
+  }
+  saveAgentLeases();
+  console.log(`[Agents] Released ${name}`);
+  scheduleWriteFiles();
+  return { success: true, status: 200 };
+}
+
+async function handleAgentLease(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  let input: Record<string, unknown>;
+  try {
+    input = await readJsonBody(req);
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message });
+    return;
+  }
+  const result = leaseAgentName(input);
+  sendJson(res, result.status, result.success ? result.lease : { error: result.error });
+}
+
+// === tmux launch ===
+// Opt-in (config.tmuxLaunch): starts each agent in its own detached tmux session named
+// after the agent, so `$(tmux display-message -p '#S')` in the command resolves to it.
+interface LaunchedSession {
+  session: string;
+  listId: string;
+  taskId?: string;
+  command: string;
+  launchedAt: string;
+}
+
+const launchedSessions = new Map<string, LaunchedSession>();
+
+function runTmux(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve) => {
+    childProcess.execFile('tmux', args, { timeout: 5000 }, (err, stdout, stderr) => {
+      if (!err) {
+        resolve({ code: 0, stdout, stderr });
+        return;
+      }
+      // Exit status for a failed tmux command, -1 when tmux itself could not run
+      const code = typeof err.code === 'number' ? err.code : -1;
+      resolve({ code, stdout, stderr: stderr || err.message });
+    });
+  });
+}
+
+async function launchAgent(input: Record<string, unknown>): Promise<{ success: boolean; status: number; error?: string; session?: LaunchedSession }> {
+  if (!currentConfig.tmuxLaunch) {
+    return { success: false, status: 403, error: 'Server-side launch is disabled. Enable "Launch in tmux" in Settings.' };
+  }
+
+  const { listId, taskId, agent, kind, codeMode } = input;
+  if (kind !== undefined && kind !== 'code' && kind !== 'review') {
+    return { success: false, status: 400, error: 'kind must be "code" or "review"' };
+  }
+  if (codeMode !== undefined && codeMode !== 'cda' && codeMode !== 'claude') {
+    return { success: false, status: 400, error: 'codeMode must be "cda" or "claude"' };
+  }
+  if (typeof listId !== 'string' || ![...taskFileIndex.values()].some(e => e.listId === listId)) {
+    return { success: false, status: 404, error: `Task list not found: ${String(listId)}` };
+  }
+  if (taskId !== undefined && taskId !== null && (typeof taskId !== 'string' || !findTaskFile(listId, taskId))) {
+    return { success: false, status: 404, error: `Task ${String(taskId)} not found in ${listId}` };
+  }
+  // tmux treats '.' and ':' in session names as target separators
+  if (typeof agent !== 'string' || !/^[A-Za-z0-9_-]+$/.test(agent)) {
+    return { success: false, status: 400, error: 'agent must contain only letters, digits, "-" and "_"' };
+  }
+  const projectDir = resolveProjectDir(listId, findListRoot(listId));
+  if (!fs.existsSync(projectDir)) {
+    return { success: false, status: 400, error: `Project directory does not exist: ${projectDir}` };
+  }
+
+  const existing = await runTmux(['has-session', '-t', `=${agent}`]);
+  if (existing.code === -1) {
+    return { success: false, status: 500, error: `tmux is not available: ${existing.stderr.trim()}` };
+  }
+  if (existing.code === 0) {
+    return { success: false, status: 409, error: `tmux session ${agent} already exists` };
+  }
+
+  const hasTask = typeof taskId === 'string';
+  const templateKey: CommandTemplateKey = kind === 'review'
+    ? 'review'
+    : `${hasTask ? 'task' : 'code'}.${codeMode === 'claude' ? 'claude' : 'cda'}` as CommandTemplateKey;
+  const command = renderCommandTemplate(currentConfig.commandTemplates[templateKey], {
+    projectDir,
+    listId,
+    taskId: hasTask ? taskId : undefined,
+    agent,
+  });
+  const created = await runTmux(['new-session', '-d', '-s', agent, '-c', projectDir]);
+  if (created.code !== 0) {
+    return { success: false, status: 500, error: `Failed to create tmux session: ${created.stderr.trim()}` };
+  }
+  // Type the command into the session's shell so the session outlives the agent process
+  const sent = await runTmux(['send-keys', '-t', `=${agent}:`, command, 'Enter']);
+  if (sent.code !== 0) {
+    return { success: false, status: 500, error: `Failed to start command in ${agent}: ${sent.stderr.trim()}` };
+  }
+
+  const session: LaunchedSession = {
+    session: agent,
+    listId,
+    taskId: hasTask ? taskId : undefined,
+    command,
+    launchedAt: new Date().toISOString(),
+  };
+  launchedSessions.set(agent, session);
+  console.log(`[Launch] Started tmux session ${agent} for ${listId} in ${projectDir}`);
+  return { success: true, status: 200, session };
+}
+
+async function listLaunchedSessions(): Promise<LaunchedSession[]> {
+  if (launchedSessions.size === 0) return [];
+  const result = await runTmux(['list-sessions', '-F', '#{session_name}']);
+  const alive = new Set(result.code === 0 ? result.stdout.split('\n').filter(Boolean) : []);
+  for (const name of launchedSessions.keys()) {
+    if (!alive.has(name)) launchedSessions.delete(name);
+  }
+  return [...launchedSessions.values()];
+}
+
+async function handleLaunch(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  let input: Record<string, unknown>;
+  try {
+    input = await readJsonBody(req);
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message });
+    return;
+  }
+  const result = await launchAgent(input);
+  sendJson(res, result.status, result.success ? result.session : { error: result.error });
+}
+
+// === Dependency integrity ===
+// Broken blockedBy/blocks links can leave a list with nothing ever available, so
+// each list is checked as it is loaded and the problems are shipped with the data.
+function findDependencyCycles(tasks: ClaudeTask[]): string[][] {
+  const ids = new Set(tasks.map(t => t.id));
+  const edges = new Map<string, string[]>();
+  for (const task of tasks) {
+    edges.set(task.id, (task.blockedBy || []).filter(id => ids.has(id)));
+  }
+
+  // Tarjan's strongly connected components; every component with a loop is a cycle
+  let counter = 0;
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string): void => {
+    index.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of edges.get(id) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1 || (edges.get(id) || []).includes(id)) {
+        cycles.push(component.sort(compareTaskIds));
+      }
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+function validateTaskList(list: ClaudeTaskList): TaskListWarning[] {
+  const warnings: TaskListWarning[] = [];
+  const byId = new Map(list.tasks.map(t => [t.id, t] as [string, ClaudeTask]));
+  const ref = (ids: string[]) => ids.map(id => `#${id}`).join(', ');
+
+  for (const task of list.tasks) {
+    const blockedBy = Array.isArray(task.blockedBy) ? task.blockedBy : [];
+    const blocks = Array.isArray(task.blocks) ? task.blocks : [];
+
+    const missing = [...new Set([...blockedBy, ...blocks])].filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      warnings.push({
+        type: 'dangling',
+        message: `#${task.id} references missing task${missing.length > 1 ? 's' : ''} ${ref(missing)}`,
+        taskIds: [task.id, ...missing],
+      });
+    }
+
+    for (const id of blocks) {
+      const target = byId.get(id);
+      if (target && !(target.blockedBy || []).includes(task.id)) {
+        warnings.push({
+          type: 'asymmetric',
+          message: `#${task.id} blocks #${id}, but #${id} is not blocked by #${task.id}`,
+          taskIds: [task.id, id],
+        });
+      }
+    }
+    for (const id of blockedBy) {
+      const blocker = byId.get(id);
+      if (blocker && !(blocker.blocks || []).includes(task.id)) {
+        warnings.push({
+          type: 'asymmetric',
+          message: `#${task.id} is blocked by #${id}, but #${id} does not list it in blocks`,
+          taskIds: [task.id, id],
+        });
+      }
+    }
+  }
+
+  for (const cycle of findDependencyCycles(list.tasks)) {
+    warnings.push({
+      type: 'cycle',
+      message: `Dependency cycle between ${ref(cycle)}; none of these can ever start`,
+      taskIds: cycle,
+    });
+  }
+
+  const pending = list.tasks.filter(t => t.status === 'pending');
+  const inProgress = list.tasks.some(t => t.status === 'in_progress');
+  const available = pending.filter(t => isTaskAvailable(t, byId));
+  if (pending.length > 0 && available.length === 0 && !inProgress) {
+    warnings.push({
+      type: 'deadlock',
+      message: `No task can start: all ${pending.length} pending tasks are blocked and nothing is in progress`,
+      taskIds: pending.map(t => t.id),
+    });
+  }
+
+  return warnings;
+}
+
+// === Verification gate ===
+// A completed task is only trusted once its completion report says the build passes. Reports that
+// say the build fails or that a change wasn't browser-tested are failures; missing results are unverified.
+type VerificationState = 'verified' | 'unverified' | 'failed';
+
+interface TaskVerification {
+  state: VerificationState;
+  reason?: string;
+  // The REVIEW: task generated for this failure, if any
+  reviewTaskId?: string;
+}
+
+function verifyTask(task: ClaudeTask): TaskVerification | null {
+  // Review tasks check other tasks' work and don't file completion reports of their own
+  if (task.status !== 'completed' || task.subject.startsWith('REVIEW:')) return null;
+  const report = task.metadata?.completionReport as { verification?: { buildPasses?: unknown; browserTested?: unknown } } | undefined;
+  if (!report || typeof report !== 'object') return { state: 'unverified', reason: 'No completion report' };
+  const verification = report.verification;
+  if (!verification || typeof verification !== 'object') return { state: 'unverified', reason: 'Completion report has no verification results' };
+
+  const failures: string[] = [];
+  if (verification.buildPasses === false) failures.push('build fails');
+  if (verification.browserTested === false) failures.push('not tested in a browser');
+  if (failures.length > 0) return { state: 'failed', reason: failures.join(', ').replace(/^./, c => c.toUpperCase()) };
+  if (verification.buildPasses !== true) return { state: 'unverified', reason: 'Build result not reported' };
+  return { state: 'verified' };
+}
+
+function verifyTaskList(list: ClaudeTaskList): Record<string, TaskVerification> {
+  const reviews = new Map<string, string>();
+  for (const task of list.tasks) {
+    const reviewOf = task.metadata?.reviewOf;
+    if (typeof reviewOf === 'string') reviews.set(reviewOf, task.id);
+  }
+  const result: Record<string, TaskVerification> = {};
+  for (const task of list.tasks) {
+    const verification = verifyTask(task);
+    if (!verification) continue;
+    const reviewTaskId = reviews.get(task.id);
+    result[task.id] = reviewTaskId ? { ...verification, reviewTaskId } : verification;
+  }
+  return result;
+}
+
+function createReviewTask(listId: string, taskId: string): { success: boolean; status: number; error?: string; task?: ClaudeTask } {
+  const listPath = getListDir(listId);
+  if (!listPath) {
+    return { success: false, status: 404, error: `Task list not found: ${listId}` };
+  }
+  // Refresh this list from disk under the lock so the new ID can't collide
+  indexTaskListDir(listPath);
+
+  const tasks = [...taskFileIndex.values()].filter(e => e.listId === listId).map(e => e.task);
+  const target = tasks.find(t => t.id === taskId);
+  if (!target) {
+    return { success: false, status: 404, error: `Task ${taskId} not found in ${listId}` };
+  }
+  const verification = verifyTask(target);
+  if (!verification || verification.state !== 'failed') {
+    return { success: false, status: 409, error: `Task ${taskId} has not failed verification` };
+  }
+  const existing = tasks.find(t => t.metadata?.reviewOf === taskId);
+  if (existing) {
+    return { success: false, status: 409, error: `Task ${taskId} already has review task #${existing.id}` };
   }
 
-  const agentMap = {};
-  const unownedInProgress = [];
-  const seenAgentTasks = new Set();
-  for (const list of TASK_DATA) {
-    for (const task of list.tasks) {
-      if (task.status === 'in_progress') {
-        const subject = task.activeForm || task.subject || '';
-        const dedupeKey = (task.owner || '') + ':' + task.id + ':' + subject;
-        if (seenAgentTasks.has(dedupeKey)) continue;
-        seenAgentTasks.add(dedupeKey);
-        if (task.owner) {
-          if (!agentMap[task.owner]) agentMap[task.owner] = [];
-          agentMap[task.owner].push({ ...task, listId: list.id });
-        } else {
-          unownedInProgress.push({ ...task, listId: list.id });
-        }
-      }
-    }
+  // Files that failed to parse aren't indexed but still hold their names, so skip past them
+  let next = Math.max(0, ...tasks.filter(t => /^\d+$/.test(t.id)).map(t => Number(t.id))) + 1;
+  while (fs.existsSync(path.join(listPath, `${next}.json`))) next++;
+  const id = String(next);
+  const filePath = path.join(listPath, `${id}.json`);
+  const task: ClaudeTask = {
+    id,
+    subject: `REVIEW: #${taskId} ${target.subject}`,
+    description: `#${taskId} was marked completed, but its completion report failed verification (${verification.reason}). ` +
+      `Check the change, fix what is broken, and update the verification results in #${taskId}'s completion report.`,
+    activeForm: `Reviewing #${taskId}`,
+    status: 'pending',
+    blocks: [],
+    blockedBy: [],
+    metadata: { reviewOf: taskId, verificationFailure: verification.reason },
+  };
+
+  try {
+    writeFileAtomic(filePath, JSON.stringify(task, null, 2));
+  } catch (err) {
+    return { success: false, status: 500, error: `Failed to write task ${id}: ${(err as Error).message}` };
   }
-  const agentCount = Object.keys(agentMap).length + (unownedInProgress.length > 0 ? 1 : 0);
 
-  const launchDiv = document.getElementById('launch');
-  if (taskLists.length > 0) {
-    const currentList = taskLists[0];
-    const nextName = getNextAgentName();
-    let taskListOptions = '';
-    for (const list of MONITOR_DATA.availableLists) {
-      const selected = list.id === currentList.id ? ' selected' : '';
-      const label = list.id + ' (' + list.taskCount + ')';
-      taskListOptions += '<option value="' + escapeHtml(list.id) + '"' + selected + '>' + escapeHtml(label) + '</option>';
+  console.log(`[Tasks] Created ${listId}#${id} to review #${taskId}`);
+  indexTaskFile(filePath);
+  scheduleWriteFiles();
+  return { success: true, status: 201, task };
+}
+
+async function handleReviewTask(res: http.ServerResponse, listId: string, taskId: string): Promise<void> {
+  if (!getListDir(listId)) {
+    sendJson(res, 404, { error: `Task list not found: ${listId}` });
+    return;
+  }
+  let result: ReturnType<typeof createReviewTask>;
+  try {
+    result = await withListLock(listId, () => createReviewTask(listId, taskId));
+  } catch (err) {
+    sendJson(res, 503, { error: (err as Error).message });
+    return;
+  }
+  sendJson(res, result.status, result.success ? { task: result.task } : { error: result.error });
+}
+
+// === File conflicts ===
+// Cross-references completionReport.filesChanged within a list. Two tasks touching the same file is
+// expected when one depends on the other; it's a likely merge conflict when they ran at the same
+// time or nothing orders them.
+interface FileConflict {
+  taskIds: [string, string];
+  files: string[];
+  // Their recorded in_progress -> completed runs overlapped
+  concurrent: boolean;
+  // One depends on the other, directly or through other tasks
+  linked: boolean;
+  severity: 'high' | 'low';
+}
+
+function normalizeChangedFile(file: string): string {
+  return file.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function findFileConflicts(list: ClaudeTaskList, cycleTimes: TaskDuration[]): FileConflict[] {
+  const fileIndex = new Map<string, string[]>();
+  for (const task of list.tasks) {
+    const report = task.metadata?.completionReport as { filesChanged?: unknown } | undefined;
+    if (!report || !Array.isArray(report.filesChanged)) continue;
+    const files = new Set(report.filesChanged.filter((f): f is string => typeof f === 'string' && f.trim() !== '').map(normalizeChangedFile));
+    for (const file of files) {
+      const taskIds = fileIndex.get(file) || [];
+      taskIds.push(task.id);
+      fileIndex.set(file, taskIds);
     }
-    const codeMode = getCodeMode();
-    const codeDangerSel = codeMode === 'cda' ? ' selected' : '';
-    const codeRegSel = codeMode === 'claude' ? ' selected' : '';
-    const codexName = getNextCodexName();
-    launchDiv.innerHTML = '<div class="control-bar">' +
-      '<span class="title">Tasks</span><span class="divider"></span>' +
-      '<select id="task-list-select" class="task-list-select" onchange="switchTaskList(this.value)">' + taskListOptions + '</select>' +
-      '<select class="code-mode-select" onchange="setCodeMode(this.value)">' +
-        '<option value="cda"' + codeDangerSel + '>Danger</option>' +
-        '<option value="claude"' + codeRegSel + '>Reg</option>' +
-      '</select>' +
-      '<button class="launch-btn" onclick="launchNextAvailable()">Code</button>' +
-      '<span class="agent-name">' + nextName + '</span>' +
-      '<button class="reset-btn" onclick="resetAgentCount()">reset</button>' +
-      '<span class="divider"></span>' +
-      '<button class="review-btn" onclick="launchNextReview()">Review</button>' +
-      '<span class="codex-name">' + codexName + '</span>' +
-      '<button class="reset-btn" onclick="resetCodexCount()">reset</button>' +
-      '<span class="spacer"></span>' +
-      '<div class="stats"><span><span class="value available">' + available + '</span> avail</span><span><span class="value in-progress">' + inProgress + '</span> active</span><span><span class="value done">' + completed + '</span>/' + totalTasks + ' done</span></div>' +
-      '<span class="divider"></span><button class="settings-btn" onclick="openSettings()">Settings</button>' +
-    '</div>';
-  } else {
-    launchDiv.innerHTML = '<div class="control-bar"><span class="title">Tasks</span><span class="spacer"></span><button class="settings-btn" onclick="openSettings()">Settings</button></div>';
   }
 
-  const agentsDiv = document.getElementById('agents');
-  if (agentCount > 0 || unownedInProgress.length > 0) {
-    let agentsHtml = '<div class="agents-bar"><span class="label">Working</span>';
-    for (const [owner, tasks] of Object.entries(agentMap)) {
-      for (const task of tasks) {
-        const subject = task.activeForm || task.subject;
-        agentsHtml += '<div class="agent"><span class="spinner"></span><span class="agent-owner">@' + escapeHtml(owner) + '</span><span class="agent-id">#' + task.id + '</span><span class="agent-task" title="' + escapeHtml(subject) + '">' + escapeHtml(subject) + '</span></div>';
+  const pairs = new Map<string, string[]>();
+  for (const [file, taskIds] of fileIndex) {
+    for (let i = 0; i < taskIds.length; i++) {
+      for (let j = i + 1; j < taskIds.length; j++) {
+        const key = `${taskIds[i]}\n${taskIds[j]}`;
+        const files = pairs.get(key) || [];
+        files.push(file);
+        pairs.set(key, files);
       }
     }
-    for (const task of unownedInProgress) {
-      const subject = task.activeForm || task.subject;
-      agentsHtml += '<div class="agent"><span class="spinner"></span><span class="agent-id">#' + task.id + '</span><span class="agent-task" title="' + escapeHtml(subject) + '">' + escapeHtml(subject) + '</span></div>';
+  }
+  if (pairs.size === 0) return [];
+
+  const byId = new Map(list.tasks.map(t => [t.id, t] as [string, ClaudeTask]));
+  const ancestors = new Map<string, Set<string>>();
+  const ancestorsOf = (id: string): Set<string> => {
+    const known = ancestors.get(id);
+    if (known) return known;
+    const result = new Set<string>();
+    // Set before recursing so cycles terminate
+    ancestors.set(id, result);
+    for (const blocker of byId.get(id)?.blockedBy || []) {
+      result.add(blocker);
+      for (const a of ancestorsOf(blocker)) result.add(a);
     }
-    agentsHtml += '</div>';
-    agentsDiv.innerHTML = agentsHtml;
-  } else {
-    agentsDiv.innerHTML = '';
+    return result;
+  };
+  const runs = new Map<string, [number, number]>();
+  for (const c of cycleTimes) {
+    if (c.listId === list.id && c.startedAt && c.completedAt) runs.set(c.taskId, [Date.parse(c.startedAt), Date.parse(c.completedAt)]);
   }
 
-  const content = document.getElementById('content');
-  if (taskLists.length === 0) {
-    agentsDiv.innerHTML = '';
-    const projectDir = MONITOR_DATA.projectDir || '';
-    const cdPrefix = projectDir ? 'cd ' + escapeHtml(projectDir) + ' && ' : '';
-    content.innerHTML = '<div class="empty">No active task lists found.<code>' + cdPrefix + "./scripts/cda-agent.sh --task-list my-project --agent $(tmux display-message -p '#S')" + '</code></div>';
-    document.getElementById('commands').innerHTML = '';
-    return;
+  const conflicts: FileConflict[] = [];
+  for (const [key, files] of pairs) {
+    const [a, b] = key.split('\n');
+    const runA = runs.get(a);
+    const runB = runs.get(b);
+    const concurrent = !!(runA && runB && runA[0] < runB[1] && runB[0] < runA[1]);
+    const linked = ancestorsOf(a).has(b) || ancestorsOf(b).has(a);
+    conflicts.push({ taskIds: [a, b], files: files.sort(), concurrent, linked, severity: concurrent || !linked ? 'high' : 'low' });
   }
+  return conflicts.sort((x, y) => (x.severity === y.severity ? 0 : x.severity === 'high' ? -1 : 1) || y.files.length - x.files.length);
+}
 
-  let html = '';
-  for (const taskList of taskLists) {
-    const pendingCount = taskList.tasks.filter(t => t.status === 'pending').length;
-    const inProgressCount = taskList.tasks.filter(t => t.status === 'in_progress').length;
-    const completedCount = taskList.tasks.filter(t => t.status === 'completed').length;
-    const lastModified = new Date(taskList.lastModified).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
-
-    html += '<div class="task-list"><div class="task-list-header"><h2 title="' + escapeHtml(taskList.id) + '">' + escapeHtml(taskList.id) + '</h2><span class="meta">(' + taskList.tasks.length + ' tasks, updated ' + lastModified + ')</span></div>';
-    const statusParts = [];
-    if (inProgressCount > 0) statusParts.push('<span class="active">' + inProgressCount + ' active</span>');
-    if (pendingCount > 0) statusParts.push('<span class="pending">' + pendingCount + ' pending</span>');
-    if (completedCount > 0) statusParts.push('<span class="done">' + completedCount + ' done</span>');
-    if (statusParts.length > 0) html += '<div class="status-summary">[' + statusParts.join(', ') + ']</div>';
+// === Git integration ===
+// Links completed tasks to commits in their list's project directory with the local git CLI:
+// commits whose message mentions the task, and commits touching its reported files while it ran.
+interface TaskCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  files: string[];
+  matchedBy: ('message' | 'files')[];
+}
 
-    for (const task of taskList.tasks) {
-      const blockerStatus = getBlockerStatus(task, taskList.tasks);
-      const isAvailable = task.status === 'pending' && !blockerStatus.isBlocked;
-      const icon = task.status === 'completed' ? '\\u25cf' : task.status === 'in_progress' ? '<span class="spinner"></span>' : isAvailable ? '\\u25c9' : '\\u25cb';
-      const subject = task.status === 'in_progress' && task.activeForm ? task.activeForm : task.subject;
-      const suffixParts = [];
-      if (task.owner && task.status !== 'pending') suffixParts.push('<span class="owner">@' + escapeHtml(task.owner) + '</span>');
-      if (blockerStatus.isBlocked) {
-        const blockerIds = blockerStatus.blockers.filter(b => !b.done).map(b => '#' + b.id).join(', ');
-        suffixParts.push('<span class="blocked">waiting on ' + blockerIds + '</span>');
+const GIT_TIMEOUT_MS = 10000;
+// Search window around a task's run; used before completedAt when the start wasn't recorded
+const GIT_WINDOW_BEFORE_MS = 2 * 60 * 60 * 1000;
+const GIT_WINDOW_SLACK_MS = 15 * 60 * 1000;
+const GIT_MAX_COMMITS = 20;
+const GIT_MAX_DIFF_BYTES = 512 * 1024;
+const GIT_LOG_FORMAT = ['--no-color', '--name-only', '--format=%x1e%H%x1f%h%x1f%an%x1f%aI%x1f%s'];
+
+function runGit(cwd: string, args: string[], maxBuffer = 4 * 1024 * 1024): Promise<{ code: number; stdout: string; stderr: string; truncated: boolean }> {
+  return new Promise((resolve) => {
+    childProcess.execFile('git', ['-C', cwd, ...args], { timeout: GIT_TIMEOUT_MS, maxBuffer }, (err, stdout, stderr) => {
+      if (!err) {
+        resolve({ code: 0, stdout, stderr, truncated: false });
+        return;
       }
-      const canLaunch = isAvailable;
-      const isReviewTask = task.subject.startsWith('REVIEW:');
-      const taskClass = isAvailable ? 'task pending available'
-        : blockerStatus.isBlocked ? 'task pending blocked'
-        : 'task ' + task.status;
-      let availableLabel = '';
-      if (canLaunch) {
-        if (isReviewTask) {
-          availableLabel = '<span class="available-label" onclick="event.stopPropagation(); launchReview(\\'' + taskList.id + '\\', \\'' + task.id + '\\')">available</span>';
-        } else {
-          availableLabel = '<span class="available-label" onclick="event.stopPropagation(); launchSpecificTask(\\'' + taskList.id + '\\', \\'' + task.id + '\\')">available</span>';
-        }
+      // Output past maxBuffer is cut off, but what was read is still usable
+      if ((err as NodeJS.ErrnoException).code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+        resolve({ code: 0, stdout, stderr, truncated: true });
+        return;
       }
-      const isExp = expandedTasks.has(task.id);
-      const chevCls = 'chevron' + (isExp ? ' expanded' : '');
-      html += '<div class="task-item"><div class="' + taskClass + '" onclick="toggleTask(\\'' + task.id + '\\')">';
-      html += '<span class="' + chevCls + '">\\u25B8</span>';
-      html += '<span class="icon ' + task.status + '">' + icon + '</span><span class="id">#' + task.id + '</span><span class="subject" title="' + escapeHtml(subject) + '">' + escapeHtml(subject) + '</span><span class="suffix">' + suffixParts.join('') + availableLabel + '</span></div>';
-      if (isExp) html += '<div class="task-detail">' + buildDetailHtml(task) + '</div>';
-      html += '</div>';
-    }
-    html += '</div>';
+      const code = typeof err.code === 'number' ? err.code : -1;
+      resolve({ code, stdout, stderr: stderr || err.message, truncated: false });
+    });
+  });
+}
+
+function parseGitLog(stdout: string): Omit<TaskCommit, 'matchedBy'>[] {
+  return stdout.split('\x1e').filter(r => r.trim() !== '').map(record => {
+    const [header, ...files] = record.split('\n');
+    const [hash, shortHash, author, date, subject] = header.split('\x1f');
+    return { hash, shortHash, author, date, subject, files: files.filter(f => f.trim() !== '') };
+  });
+}
+
+// From the task's last start (or a fixed window before completion) to just after it completed
+function getTaskCommitWindow(listId: string, task: ClaudeTask): { since: number; until: number } | null {
+  const changes = taskStatusChanges.get(`${listId}/${task.id}`) || [];
+  const report = task.metadata?.completionReport as { completedAt?: unknown } | undefined;
+  let completedAt = typeof report?.completedAt === 'string' ? Date.parse(report.completedAt) : NaN;
+  if (isNaN(completedAt)) {
+    const completion = changes.filter(c => c.status === 'completed').pop();
+    if (!completion) return null;
+    completedAt = completion.time;
   }
-  content.innerHTML = html;
+  const start = changes.filter(c => c.status === 'in_progress' && c.time <= completedAt).pop();
+  const since = start ? start.time - GIT_WINDOW_SLACK_MS : completedAt - GIT_WINDOW_BEFORE_MS;
+  return { since, until: completedAt + GIT_WINDOW_SLACK_MS };
+}
 
-  const commands = document.getElementById('commands');
-  const mostRecent = taskLists[0];
-  const projectDir = MONITOR_DATA.projectDir || '';
-  const cdPrefix = projectDir ? 'cd ' + escapeHtml(projectDir) + ' && ' : '';
-  let cmdHtml = '<h3>Quick Commands:</h3><div class="label"># Resume most recent task list:</div><code>' + cdPrefix + "./scripts/cda-agent.sh --task-list " + escapeHtml(mostRecent.id) + " --agent $(tmux display-message -p '#S')" + '</code>';
-  if (taskLists.length > 1) {
-    cmdHtml += '<div class="label"># Other task lists:</div>';
-    for (const list of taskLists.slice(1, 4)) {
-      cmdHtml += '<code class="dim">' + cdPrefix + "./scripts/cda-agent.sh --task-list " + escapeHtml(list.id) + " --agent $(tmux display-message -p '#S')" + '</code>';
+async function findTaskCommits(listId: string, taskId: string): Promise<{ success: boolean; status: number; error?: string; projectDir?: string; commits?: TaskCommit[] }> {
+  const filePath = findTaskFile(listId, taskId);
+  const task = filePath ? readTaskFile(filePath) : null;
+  if (!task) {
+    return { success: false, status: 404, error: `Task ${taskId} not found in ${listId}` };
+  }
+  const projectDir = resolveProjectDir(listId, findListRoot(listId));
+  const check = await runGit(projectDir, ['rev-parse', '--is-inside-work-tree']);
+  if (check.code !== 0) {
+    return { success: false, status: 404, error: `No git repository at ${projectDir}` };
+  }
+
+  const found = new Map<string, TaskCommit>();
+  const collect = (stdout: string, reason: 'message' | 'files') => {
+    for (const commit of parseGitLog(stdout)) {
+      const existing = found.get(commit.hash);
+      if (existing) existing.matchedBy.push(reason);
+      else found.set(commit.hash, { ...commit, matchedBy: [reason] });
     }
+  };
+
+  const window = getTaskCommitWindow(listId, task);
+  const windowArgs = window ? [`--since=${new Date(window.since).toISOString()}`, `--until=${new Date(window.until).toISOString()}`] : [];
+
+  // "#12", "task 12" or "task-12", but not "#123". Short IDs recur across a project's
+  // history ("Merge pull request #1"), so without a run window the message must also name the list.
+  const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const idPattern = `(#|task[ -]?)${escapeRegex(taskId)}([^0-9A-Za-z]|$)`;
+  const grepArgs = window ? [`--grep=${idPattern}`] : ['--all-match', `--grep=${idPattern}`, `--grep=${escapeRegex(listId)}`];
+  const byMessage = await runGit(projectDir, ['log', ...GIT_LOG_FORMAT, '-n', String(GIT_MAX_COMMITS), ...windowArgs, '-i', '-E', ...grepArgs]);
+  if (byMessage.code === 0) collect(byMessage.stdout, 'message');
+
+  const report = task.metadata?.completionReport as { filesChanged?: unknown } | undefined;
+  const files = Array.isArray(report?.filesChanged)
+    ? report!.filesChanged.filter((f): f is string => typeof f === 'string' && f.trim() !== '').map(normalizeChangedFile)
+    : [];
+  if (files.length > 0 && window) {
+    const byFiles = await runGit(projectDir, ['log', ...GIT_LOG_FORMAT, '-n', String(GIT_MAX_COMMITS), ...windowArgs, '--', ...files]);
+    // Fails when a reported path lies outside the repository; the message matches still stand
+    if (byFiles.code === 0) collect(byFiles.stdout, 'files');
   }
-  commands.innerHTML = cmdHtml;
+
+  const commits = [...found.values()].sort((a, b) => b.date.localeCompare(a.date)).slice(0, GIT_MAX_COMMITS);
+  return { success: true, status: 200, projectDir, commits };
 }
 
-// Initialize
-loadSettings().then(() => {
-  if (MONITOR_DATA) { render(); fetchData(); } else { fetchData(); }
-  pollTimer = setInterval(() => { fetchData(); }, pollInterval);
-});`;
+async function getCommitDiff(listId: string, hash: string): Promise<{ success: boolean; status: number; error?: string; diff?: string; truncated?: boolean }> {
+  if (!/^[0-9a-f]{7,40}$/i.test(hash)) {
+    return { success: false, status: 400, error: 'commit must be a hex commit hash' };
+  }
+  const projectDir = resolveProjectDir(listId, findListRoot(listId));
+  const result = await runGit(projectDir, ['show', '--no-color', '--no-ext-diff', '--stat', '--patch', hash], GIT_MAX_DIFF_BYTES);
+  if (result.code !== 0) {
+    return { success: false, status: 404, error: `Commit ${hash} not found in ${projectDir}` };
+  }
+  return { success: true, status: 200, diff: result.stdout, truncated: result.truncated };
+}
 
-// === Archive function ===
-async function archiveTaskList(taskListId: string, tasks: ClaudeTask[]) {
-  try {
-    await fs.promises.mkdir(ARCHIVE_DIR, { recursive: true });
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const archivePath = path.join(ARCHIVE_DIR, `${taskListId}_${timestamp}.json`);
-    await fs.promises.writeFile(archivePath, JSON.stringify({
-      id: taskListId,
-      archivedAt: new Date().toISOString(),
-      tasks
-    }, null, 2));
-    console.log(`[Archive] Saved ${taskListId} to ${archivePath}`);
-  } catch (error) {
-    console.error(`[Archive] Failed to archive ${taskListId}:`, error);
+async function handleTaskCommits(res: http.ServerResponse, listId: string, taskId: string): Promise<void> {
+  if (!getListDir(listId)) {
+    sendJson(res, 404, { error: `Task list not found: ${listId}` });
+    return;
   }
+  const result = await findTaskCommits(listId, taskId);
+  sendJson(res, result.status, result.success
+    ? { projectDir: result.projectDir, commits: result.commits }
+    : { error: result.error });
 }
 
-// === Task file reading ===
-function readTaskFile(filePath: string): ClaudeTask | null {
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(content) as ClaudeTask;
-  } catch {
-    return null;
+async function handleCommitDiff(res: http.ServerResponse, listId: string, hash: string): Promise<void> {
+  if (!getListDir(listId)) {
+    sendJson(res, 404, { error: `Task list not found: ${listId}` });
+    return;
   }
+  const result = await getCommitDiff(listId, hash);
+  sendJson(res, result.status, result.success
+    ? { diff: result.diff, truncated: result.truncated }
+    : { error: result.error });
 }
 
-function getTaskLists(): ClaudeTaskList[] {
-  const taskLists: ClaudeTaskList[] = [];
+// === Task history ===
+// Transitions are appended to a JSONL log so status/owner changes survive restarts.
+// Only the fields we report on are kept per task, keyed by "<listId>/<taskId>".
+type TaskEventType = 'created' | 'removed' | 'status' | 'owner' | 'report';
+
+interface TaskEvent {
+  timestamp: string;
+  listId: string;
+  taskId: string;
+  type: TaskEventType;
+  subject?: string;
+  from?: string | null;
+  to?: string | null;
+}
 
-  if (!fs.existsSync(TASKS_DIR)) {
-    return taskLists;
+interface TaskHistoryState {
+  status: string;
+  owner: string | null;
+  hasReport: boolean;
+}
+
+interface TaskHistoryQuery {
+  listId?: string;
+  taskId?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+const HISTORY_FILE = path.join(STATE_DIR, 'task-history.jsonl');
+const lastSeenTaskStates = new Map<string, TaskHistoryState>();
+// Every status change in the log per "<listId>/<taskId>", oldest first, so lookups don't re-read it
+const taskStatusChanges = new Map<string, { status: string; time: number }[]>();
+let taskHistoryReady = false;
+
+function toHistoryState(task: ClaudeTask): TaskHistoryState {
+  return {
+    status: task.status,
+    owner: task.owner || null,
+    hasReport: !!(task.metadata && task.metadata.completionReport),
+  };
+}
+
+function diffTaskState(listId: string, task: ClaudeTask, prev: TaskHistoryState | undefined, next: TaskHistoryState, timestamp: string): TaskEvent[] {
+  const base = { timestamp, listId, taskId: task.id, subject: task.subject };
+  const events: TaskEvent[] = [];
+
+  if (!prev) {
+    events.push({ ...base, type: 'created', to: next.status });
+    if (next.owner) events.push({ ...base, type: 'owner', from: null, to: next.owner });
+    if (next.hasReport) events.push({ ...base, type: 'report', to: reportAgent(task) });
+    return events;
   }
 
-  const listDirs = fs.readdirSync(TASKS_DIR, { withFileTypes: true });
+  if (prev.status !== next.status) events.push({ ...base, type: 'status', from: prev.status, to: next.status });
+  if (prev.owner !== next.owner) events.push({ ...base, type: 'owner', from: prev.owner, to: next.owner });
+  if (!prev.hasReport && next.hasReport) events.push({ ...base, type: 'report', to: reportAgent(task) });
+  return events;
+}
 
-  for (const dir of listDirs) {
-    if ((!dir.isDirectory() && !dir.isSymbolicLink()) || dir.name === '.archive') continue;
+function reportAgent(task: ClaudeTask): string | null {
+  const report = task.metadata?.completionReport as { agent?: unknown } | undefined;
+  return report && typeof report.agent === 'string' ? report.agent : null;
+}
 
-    const listPath = path.join(TASKS_DIR, dir.name);
-    const tasks: ClaudeTask[] = [];
-    let lastModified = new Date(0);
+function recordStatusChanges(events: TaskEvent[]): void {
+  for (const event of events) {
+    if (event.type !== 'status' || !event.to) continue;
+    const key = `${event.listId}/${event.taskId}`;
+    const changes = taskStatusChanges.get(key) || [];
+    changes.push({ status: event.to, time: Date.parse(event.timestamp) });
+    taskStatusChanges.set(key, changes);
+  }
+}
 
-    try {
-      const taskFiles = fs.readdirSync(listPath);
+function appendTaskEvents(events: TaskEvent[]): void {
+  if (events.length === 0) return;
+  try {
+    fs.appendFileSync(HISTORY_FILE, events.map(e => JSON.stringify(e)).join('\n') + '\n');
+  } catch (err) {
+    console.error('[History] Failed to append events:', err);
+    return;
+  }
+  recordStatusChanges(events);
+  foldLiveAnalytics(events);
+}
 
-      for (const file of taskFiles) {
-        if (!file.endsWith(".json")) continue;
+function trackTaskTransitions(listId: string, task: ClaudeTask, changedAt: Date): void {
+  if (!taskHistoryReady || typeof task.id !== 'string') return;
+  const key = `${listId}/${task.id}`;
+  const next = toHistoryState(task);
+  appendTaskEvents(diffTaskState(listId, task, lastSeenTaskStates.get(key), next, changedAt.toISOString()));
+  lastSeenTaskStates.set(key, next);
+}
 
-        const filePath = path.join(listPath, file);
-        const task = readTaskFile(filePath);
+function trackTaskRemoval(listId: string, task: ClaudeTask): void {
+  if (!taskHistoryReady || typeof task.id !== 'string') return;
+  const key = `${listId}/${task.id}`;
+  const prev = lastSeenTaskStates.get(key);
+  if (!prev) return;
+  lastSeenTaskStates.delete(key);
+  appendTaskEvents([{
+    timestamp: new Date().toISOString(),
+    listId,
+    taskId: task.id,
+    type: 'removed',
+    subject: task.subject,
+    from: prev.status,
+  }]);
+}
 
-        if (task) {
-          tasks.push(task);
-          const stat = fs.statSync(filePath);
-          if (stat.mtime > lastModified) {
-            lastModified = stat.mtime;
-          }
-        }
-      }
+function readTaskHistory(query: TaskHistoryQuery = {}): TaskEvent[] {
+  if (!fs.existsSync(HISTORY_FILE)) return [];
+
+  const events: TaskEvent[] = [];
+  for (const line of fs.readFileSync(HISTORY_FILE, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    let event: TaskEvent;
+    try {
+      event = JSON.parse(line);
     } catch {
       continue;
     }
+    if (query.listId && event.listId !== query.listId) continue;
+    if (query.taskId && event.taskId !== query.taskId) continue;
+    const time = Date.parse(event.timestamp);
+    if (query.since !== undefined && time < query.since) continue;
+    if (query.until !== undefined && time > query.until) continue;
+    events.push(event);
+  }
+
+  return query.limit !== undefined ? events.slice(-query.limit) : events;
+}
+
+// Rebuild the last known state from the log and record whatever changed while the
+// monitor was not running, stamped with the file mtime. Must run after buildTaskIndex().
+function seedTaskHistory(): void {
+  const history = readTaskHistory();
+  recordStatusChanges(history);
+  foldLiveAnalytics([...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+  lastSeenTaskStates.clear();
+  for (const event of history) {
+    const key = `${event.listId}/${event.taskId}`;
+    if (event.type === 'removed') {
+      lastSeenTaskStates.delete(key);
+      continue;
+    }
+    const state = lastSeenTaskStates.get(key) || { status: 'pending', owner: null, hasReport: false };
+    if (event.type === 'created' || event.type === 'status') state.status = event.to || state.status;
+    if (event.type === 'owner') state.owner = event.to || null;
+    if (event.type === 'report') state.hasReport = true;
+    lastSeenTaskStates.set(key, state);
+  }
+
+  const present = new Set<string>();
+  const events: TaskEvent[] = [];
+  for (const entry of taskFileIndex.values()) {
+    if (typeof entry.task.id !== 'string') continue;
+    const key = `${entry.listId}/${entry.task.id}`;
+    const next = toHistoryState(entry.task);
+    present.add(key);
+    events.push(...diffTaskState(entry.listId, entry.task, lastSeenTaskStates.get(key), next, entry.mtime.toISOString()));
+    lastSeenTaskStates.set(key, next);
+  }
+  for (const [key, prev] of lastSeenTaskStates) {
+    if (present.has(key)) continue;
+    const slash = key.indexOf('/');
+    events.push({
+      timestamp: new Date().toISOString(),
+      listId: key.slice(0, slash),
+      taskId: key.slice(slash + 1),
+      type: 'removed',
+      from: prev.status,
+    });
+    lastSeenTaskStates.delete(key);
+  }
+
+  appendTaskEvents(events.sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+  taskHistoryReady = true;
+  if (events.length > 0) console.log(`[History] Recorded ${events.length} events from changes made while stopped`);
+}
+
+function parseTimeParam(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+// === Throughput analytics ===
+// Computed from the history log alone, so runs from before a restart and lists that
+// have since been archived are included. The log is folded in memory, for all lists and
+// for each list, as events are appended. Durations are in milliseconds.
+interface BurndownPoint {
+  timestamp: string;
+  total: number;
+  remaining: number;
+  active: number;
+}
+
+interface TaskDuration {
+  listId: string;
+  taskId: string;
+  subject?: string;
+  agent: string | null;
+  ms: number;
+  // Cycle times only: when the measured run started and completed
+  startedAt?: string;
+  completedAt?: string;
+}
+
+interface AgentThroughput {
+  agent: string;
+  completed: number;
+  medianCycleMs: number | null;
+}
+
+interface TaskAnalytics {
+  listId: string | null;
+  burndown: BurndownPoint[];
+  // in_progress -> completed, measured from the last start before the completion
+  cycleTimes: TaskDuration[];
+  // From the last blocker completing (or the task appearing) to the task starting; tasks with blockers only
+  waitTimes: TaskDuration[];
+  // Tasks currently in progress, with the time elapsed since they started
+  running: TaskDuration[];
+  agents: AgentThroughput[];
+  completed: number;
+  completedPerHour: number | null;
+  peakActive: number;
+}
+
+interface AnalyticsTaskState {
+  status: string | null;
+  owner: string | null;
+  reportAgent: string | null;
+  subject?: string;
+  createdAt: number;
+  startedAt: number | null;
+  firstStartedAt: number | null;
+}
+
+type TaskCompletion = Omit<TaskDuration, 'startedAt' | 'completedAt'> & { startedAt: number | null; completedAt: number };
+
+// Running state after applying history events in order
+interface AnalyticsFold {
+  states: Map<string, AnalyticsTaskState>;
+  // Latest completion per task
+  completions: Map<string, TaskCompletion>;
+  firstCompletedAt: Map<string, number>;
+  burndown: BurndownPoint[];
+  total: number;
+  remaining: number;
+  active: number;
+  peakActive: number;
+}
+
+function createAnalyticsFold(): AnalyticsFold {
+  return { states: new Map(), completions: new Map(), firstCompletedAt: new Map(), burndown: [], total: 0, remaining: 0, active: 0, peakActive: 0 };
+}
 
-    if (tasks.length > 0) {
-      const sortedTasks = tasks.sort((a, b) => parseInt(a.id) - parseInt(b.id));
+// Fed by appendTaskEvents(), so neither writeFiles() nor /api/analytics re-reads the log
+const liveAnalytics = createAnalyticsFold();
+const liveListAnalytics = new Map<string, AnalyticsFold>();
 
-      // Cache the task data for archiving when files are deleted
-      taskDataCache.set(dir.name, { tasks: sortedTasks, lastModified });
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
 
-      taskLists.push({
-        id: dir.name,
-        tasks: sortedTasks,
-        lastModified,
+function foldTaskEvents(fold: AnalyticsFold, events: TaskEvent[]): void {
+  const { states, completions, firstCompletedAt, burndown } = fold;
+  for (let i = 0; i < events.length; ) {
+    // One file change can produce several events for a task (status, owner, report); apply them together
+    const first = events[i];
+    const key = `${first.listId}/${first.taskId}`;
+    const group: TaskEvent[] = [];
+    while (i < events.length && events[i].timestamp === first.timestamp && events[i].listId === first.listId && events[i].taskId === first.taskId) {
+      group.push(events[i++]);
+    }
+    const time = Date.parse(first.timestamp);
+
+    let state = states.get(key);
+    const prevStatus = state ? state.status : null;
+    for (const event of group) {
+      if (event.type === 'created') {
+        state = { status: event.to || 'pending', owner: null, reportAgent: null, subject: event.subject, createdAt: time, startedAt: null, firstStartedAt: null };
+        states.set(key, state);
+      }
+      if (!state) continue;
+      if (event.type === 'status') state.status = event.to || state.status;
+      if (event.type === 'owner') state.owner = event.to || null;
+      if (event.type === 'report') state.reportAgent = event.to || null;
+      if (event.type === 'removed') state.status = null;
+    }
+    if (!state) continue;
+    const nextStatus = state.status;
+    if (nextStatus === null) states.delete(key);
+
+    const isOpen = (status: string | null) => status !== null && status !== 'completed';
+    fold.total += (nextStatus !== null ? 1 : 0) - (prevStatus !== null ? 1 : 0);
+    fold.remaining += (isOpen(nextStatus) ? 1 : 0) - (isOpen(prevStatus) ? 1 : 0);
+    fold.active += (nextStatus === 'in_progress' ? 1 : 0) - (prevStatus === 'in_progress' ? 1 : 0);
+    fold.peakActive = Math.max(fold.peakActive, fold.active);
+
+    if (nextStatus === 'in_progress' && prevStatus !== 'in_progress') {
+      state.startedAt = time;
+      if (state.firstStartedAt === null) state.firstStartedAt = time;
+    }
+    // A task first seen as completed (e.g. at startup) wasn't observed finishing, so it isn't a completion
+    if (nextStatus === 'completed' && prevStatus !== null && prevStatus !== 'completed') {
+      completions.set(key, {
+        listId: first.listId,
+        taskId: first.taskId,
+        subject: state.subject,
+        agent: state.reportAgent || state.owner,
+        ms: state.startedAt !== null ? time - state.startedAt : 0,
+        startedAt: state.startedAt,
+        completedAt: time,
       });
+      if (!firstCompletedAt.has(key)) firstCompletedAt.set(key, time);
+    }
+
+    const { total, remaining, active } = fold;
+    const last = burndown[burndown.length - 1];
+    if (last && last.timestamp === first.timestamp) {
+      Object.assign(last, { total, remaining, active });
+    } else if (!last || last.total !== total || last.remaining !== remaining || last.active !== active) {
+      burndown.push({ timestamp: first.timestamp, total, remaining, active });
     }
   }
+}
 
-  return taskLists.sort(
-    (a, b) => b.lastModified.getTime() - a.lastModified.getTime()
-  );
+function foldLiveAnalytics(events: TaskEvent[]): void {
+  foldTaskEvents(liveAnalytics, events);
+  const byList = new Map<string, TaskEvent[]>();
+  for (const event of events) {
+    const listEvents = byList.get(event.listId) || [];
+    listEvents.push(event);
+    byList.set(event.listId, listEvents);
+  }
+  for (const [listId, listEvents] of byList) {
+    let fold = liveListAnalytics.get(listId);
+    if (!fold) {
+      fold = createAnalyticsFold();
+      liveListAnalytics.set(listId, fold);
+    }
+    foldTaskEvents(fold, listEvents);
+  }
+}
+
+function computeTaskAnalytics(listId?: string): TaskAnalytics {
+  const fold = listId ? liveListAnalytics.get(listId) || createAnalyticsFold() : liveAnalytics;
+  const { states, completions, firstCompletedAt, burndown, peakActive } = fold;
+
+  const done = [...completions.values()];
+  const cycleTimes: TaskDuration[] = done
+    .filter(c => c.startedAt !== null)
+    .map(({ listId: l, taskId, subject, agent, ms, startedAt, completedAt }) => ({
+      listId: l, taskId, subject, agent, ms,
+      startedAt: new Date(startedAt!).toISOString(),
+      completedAt: new Date(completedAt).toISOString(),
+    }));
+
+  const byAgent = new Map<string, { completed: number; cycles: number[] }>();
+  for (const c of done) {
+    const agent = c.agent || '(unknown)';
+    const stats = byAgent.get(agent) || { completed: 0, cycles: [] };
+    stats.completed++;
+    if (c.startedAt !== null) stats.cycles.push(c.ms);
+    byAgent.set(agent, stats);
+  }
+  const agents: AgentThroughput[] = [...byAgent.entries()]
+    .map(([agent, stats]) => ({ agent, completed: stats.completed, medianCycleMs: median(stats.cycles) }))
+    .sort((a, b) => b.completed - a.completed || a.agent.localeCompare(b.agent));
+
+  // Blockers come from the current task files, so lists that are gone have no wait times
+  const waitTimes: TaskDuration[] = [];
+  for (const entry of taskFileIndex.values()) {
+    if (listId && entry.listId !== listId) continue;
+    const blockedBy = entry.task.blockedBy || [];
+    if (blockedBy.length === 0) continue;
+    const state = states.get(`${entry.listId}/${entry.task.id}`);
+    if (!state || state.firstStartedAt === null) continue;
+    const unblockedTimes = blockedBy.map(id => firstCompletedAt.get(`${entry.listId}/${id}`));
+    if (unblockedTimes.some(t => t === undefined || t > state.firstStartedAt!)) continue;
+    const unblockedAt = Math.max(state.createdAt, ...(unblockedTimes as number[]));
+    waitTimes.push({
+      listId: entry.listId,
+      taskId: entry.task.id,
+      subject: entry.task.subject,
+      agent: state.owner,
+      ms: state.firstStartedAt - unblockedAt,
+    });
+  }
+
+  const running: TaskDuration[] = [];
+  const now = Date.now();
+  for (const [key, state] of states) {
+    if (state.status !== 'in_progress' || state.startedAt === null) continue;
+    const slash = key.indexOf('/');
+    running.push({ listId: key.slice(0, slash), taskId: key.slice(slash + 1), subject: state.subject, agent: state.owner, ms: now - state.startedAt });
+  }
+
+  // Rate over the span from the first observed start to the last completion
+  const starts = done.map(c => c.startedAt).filter((t): t is number => t !== null);
+  const lastCompletion = Math.max(...done.map(c => c.completedAt));
+  const span = starts.length > 0 ? lastCompletion - Math.min(...starts) : 0;
+
+  return {
+    listId: listId || null,
+    burndown,
+    cycleTimes,
+    waitTimes,
+    running,
+    agents,
+    completed: done.length,
+    completedPerHour: done.length >= 2 && span > 0 ? done.length / (span / 3600000) : null,
+    peakActive,
+  };
+}
+
+// === Completion forecast ===
+// Remaining work is weighted by metadata.loe x metadata.complexity and converted to time using the
+// observed cycle time per unit of weight. The ETA is the larger of the weighted critical path and the
+// total remaining work spread over the agents currently working the list.
+interface TaskListForecast {
+  remainingTasks: number;
+  agents: number;
+  samples: number;
+  calibration: 'list' | 'all';
+  etaMs: number;
+  lowMs: number;
+  highMs: number;
+  criticalPathMs: number;
+  // ETA with one more agent; equal to etaMs when the critical path is the limit
+  withExtraAgentMs: number;
+}
+
+// Lists with fewer completions than this are calibrated against all lists
+const FORECAST_MIN_SAMPLES = 3;
+
+const EFFORT_SIZES: Record<string, number> = {
+  xs: 0.5, s: 1, small: 1, low: 1, m: 2, medium: 2, l: 4, large: 4, high: 4, xl: 8, 'very high': 8,
+};
+
+// Numbers (or strings starting with one, like "3" or "2h") are used as-is; sizes map to a relative scale
+function parseEffort(value: unknown): number | null {
+  if (typeof value === 'number') return value > 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const n = parseFloat(value);
+  if (!isNaN(n)) return n > 0 ? n : null;
+  return EFFORT_SIZES[value.trim().toLowerCase()] ?? null;
+}
+
+// Tasks missing a field get the list's median for it, so partially annotated lists stay comparable
+function getTaskWeights(tasks: ClaudeTask[]): Map<string, number> {
+  const fieldDefault = (field: string) => median(tasks.map(t => parseEffort(t.metadata?.[field])).filter((v): v is number => v !== null)) ?? 1;
+  const loeDefault = fieldDefault('loe');
+  const complexityDefault = fieldDefault('complexity');
+  const weights = new Map<string, number>();
+  for (const task of tasks) {
+    weights.set(task.id, (parseEffort(task.metadata?.loe) ?? loeDefault) * (parseEffort(task.metadata?.complexity) ?? complexityDefault));
+  }
+  return weights;
+}
+
+function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  return sorted[lower] + (sorted[Math.min(lower + 1, sorted.length - 1)] - sorted[lower]) * (pos - lower);
 }
 
-function getAllTaskListSummaries(): TaskListSummary[] {
-  const summaries: TaskListSummary[] = [];
+function forecastTaskLists(taskLists: ClaudeTaskList[], analytics: TaskAnalytics): Record<string, TaskListForecast> {
+  const weightsByList = new Map(taskLists.map(list => [list.id, getTaskWeights(list.tasks)]));
+
+  // Milliseconds per unit of weight; completions from lists that are gone have no weights and are skipped
+  const allRates: number[] = [];
+  const ratesByList = new Map<string, number[]>();
+  for (const sample of analytics.cycleTimes) {
+    const weight = weightsByList.get(sample.listId)?.get(sample.taskId);
+    if (weight === undefined || sample.ms <= 0) continue;
+    allRates.push(sample.ms / weight);
+    const rates = ratesByList.get(sample.listId) || [];
+    rates.push(sample.ms / weight);
+    ratesByList.set(sample.listId, rates);
+  }
+  const elapsed = new Map(analytics.running.map(r => [`${r.listId}/${r.taskId}`, r.ms]));
+
+  const forecasts: Record<string, TaskListForecast> = {};
+  for (const list of taskLists) {
+    const open = list.tasks.filter(t => t.status !== 'completed');
+    const listRates = ratesByList.get(list.id) || [];
+    const calibration = listRates.length >= FORECAST_MIN_SAMPLES ? 'list' : 'all';
+    const rates = calibration === 'list' ? listRates : allRates;
+    if (open.length === 0 || rates.length === 0) continue;
+
+    const weights = weightsByList.get(list.id)!;
+    const openById = new Map(open.map(t => [t.id, t]));
+    const agents = Math.max(1, open.filter(t => t.status === 'in_progress').length);
+
+    const estimate = (rate: number, agentCount: number) => {
+      const cost = new Map<string, number>();
+      for (const task of open) {
+        const full = weights.get(task.id)! * rate;
+        const spent = task.status === 'in_progress' ? elapsed.get(`${list.id}/${task.id}`) || 0 : 0;
+        // A task past its estimate is assumed to be nearly done rather than finished
+        cost.set(task.id, Math.max(full - spent, full * 0.1));
+      }
+      const longest = new Map<string, number>();
+      const visiting = new Set<string>();
+      const pathTo = (id: string): number => {
+        const known = longest.get(id);
+        if (known !== undefined) return known;
+        if (visiting.has(id)) return 0;
+        visiting.add(id);
+        let best = 0;
+        for (const blocker of openById.get(id)!.blockedBy || []) {
+          if (openById.has(blocker)) best = Math.max(best, pathTo(blocker));
+        }
+        visiting.delete(id);
+        longest.set(id, best + cost.get(id)!);
+        return best + cost.get(id)!;
+      };
+      const criticalPath = Math.max(...open.map(t => pathTo(t.id)));
+      const work = [...cost.values()].reduce((sum, ms) => sum + ms, 0);
+      return { eta: Math.max(criticalPath, work / agentCount), criticalPath };
+    };
 
-  if (!fs.existsSync(TASKS_DIR)) {
-    return summaries;
+    const mid = median(rates)!;
+    // Too few samples for quartiles to mean much, so use a deliberately wide range
+    const low = rates.length >= FORECAST_MIN_SAMPLES ? quantile(rates, 0.25) : mid / 2;
+    const high = rates.length >= FORECAST_MIN_SAMPLES ? quantile(rates, 0.75) : mid * 2;
+    const expected = estimate(mid, agents);
+    forecasts[list.id] = {
+      remainingTasks: open.length,
+      agents,
+      samples: rates.length,
+      calibration,
+      etaMs: Math.round(expected.eta),
+      lowMs: Math.round(estimate(low, agents).eta),
+      highMs: Math.round(estimate(high, agents).eta),
+      criticalPathMs: Math.round(expected.criticalPath),
+      withExtraAgentMs: Math.round(estimate(mid, agents + 1).eta),
+    };
   }
+  return forecasts;
+}
 
-  const listDirs = fs.readdirSync(TASKS_DIR, { withFileTypes: true });
-
-  for (const dir of listDirs) {
-    if ((!dir.isDirectory() && !dir.isSymbolicLink()) || dir.name === '.archive') continue;
-
-    const listPath = path.join(TASKS_DIR, dir.name);
-    const promptPath = path.join(listPath, 'prompt.md');
-    const hasPrompt = fs.existsSync(promptPath);
+// === Health ===
+// Process state for /api/health, so scripts can check one document instead of inspecting files
+interface WatcherEvent {
+  type: string;
+  path: string;
+  at: string;
+}
 
-    const tasks: ClaudeTask[] = [];
-    let lastModified = new Date(0);
+interface MonitorHealthState {
+  startedAt: number;
+  watcherReady: boolean;
+  lastWatcherEvent: WatcherEvent | null;
+  lastWatcherError: { at: string; message: string } | null;
+  lastWriteAt: string | null;
+  lastWriteDurationMs: number | null;
+  lastWriteError: { at: string; message: string } | null;
+}
 
-    try {
-      const taskFiles = fs.readdirSync(listPath);
+const MONITOR_VERSION = readMonitorVersion();
 
-      for (const file of taskFiles) {
-        if (!file.endsWith('.json')) continue;
+const healthState: MonitorHealthState = {
+  startedAt: Date.now(),
+  watcherReady: false,
+  lastWatcherEvent: null,
+  lastWatcherError: null,
+  lastWriteAt: null,
+  lastWriteDurationMs: null,
+  lastWriteError: null,
+};
 
-        const filePath = path.join(listPath, file);
-        const task = readTaskFile(filePath);
+function readMonitorVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
 
-        if (task) {
-          tasks.push(task);
-          const stat = fs.statSync(filePath);
-          if (stat.mtime > lastModified) {
-            lastModified = stat.mtime;
-          }
-        }
-      }
-    } catch {
-      continue;
-    }
+function noteWatcherEvent(type: string, filePath: string): void {
+  healthState.lastWatcherEvent = { type, path: filePath, at: new Date().toISOString() };
+}
 
-    if (tasks.length > 0) {
-      summaries.push({
-        id: dir.name,
-        path: listPath,
-        taskCount: tasks.length,
-        pendingCount: tasks.filter(t => t.status === 'pending').length,
-        inProgressCount: tasks.filter(t => t.status === 'in_progress').length,
-        completedCount: tasks.filter(t => t.status === 'completed').length,
-        lastModified,
-        hasPrompt
-      });
-    }
+function getHealth(): { degraded: boolean; body: Record<string, unknown> } {
+  const problems: string[] = [];
+  if (!healthState.watcherReady) problems.push('Task watcher is not ready yet');
+  if (!healthState.lastWriteAt) problems.push('Monitor files have not been generated yet');
+  // A failure only counts until the next successful regeneration
+  if (healthState.lastWriteError && (!healthState.lastWriteAt || healthState.lastWriteError.at > healthState.lastWriteAt)) {
+    problems.push(`Last regeneration failed: ${healthState.lastWriteError.message}`);
+  }
+  for (const error of configErrors) problems.push(`Config: ${error}`);
+  const roots = currentConfig.taskRoots.map(r => ({ path: r.path, label: r.label, exists: fs.existsSync(r.path) }));
+  for (const root of roots) {
+    if (!root.exists) problems.push(`Task root does not exist: ${root.path}`);
   }
 
-  return summaries.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+  const lists = lastMonitorData ? lastMonitorData.taskLists : [];
+  const tasks = lists.flatMap(l => l.tasks);
+  return {
+    degraded: problems.length > 0,
+    body: {
+      status: problems.length > 0 ? 'degraded' : 'ok',
+      problems,
+      version: MONITOR_VERSION,
+      pid: process.pid,
+      node: process.version,
+      startedAt: new Date(healthState.startedAt).toISOString(),
+      uptimeSeconds: Math.round((Date.now() - healthState.startedAt) / 1000),
+      watcher: {
+        ready: healthState.watcherReady,
+        lastEvent: healthState.lastWatcherEvent,
+        lastError: healthState.lastWatcherError,
+      },
+      regeneration: {
+        lastSuccessAt: healthState.lastWriteAt,
+        lastDurationMs: healthState.lastWriteDurationMs,
+        lastError: healthState.lastWriteError,
+      },
+      data: {
+        lists: lists.length,
+        tasks: tasks.length,
+        inProgress: tasks.filter(t => t.status === 'in_progress').length,
+        invalidFiles: taskFileDiagnostics.size,
+      },
+      streamClients: sseClients.size,
+      config: {
+        file: CONFIG_FILE,
+        profile: CLI_OPTIONS.profile || null,
+        schemaVersion: CONFIG_SCHEMA_VERSION,
+        overrides: CONFIG_OVERRIDE_FLAGS,
+        errors: configErrors,
+      },
+      paths: {
+        dataDir: DATA_DIR,
+        stateDir: STATE_DIR,
+        outputDir: OUTPUT_DIR,
+        dataFile: DATA_FILE,
+        htmlFile: HTML_FILE,
+        historyFile: HISTORY_FILE,
+        agentLeasesFile: AGENT_LEASES_FILE,
+        archiveDir: ARCHIVE_DIR,
+        taskRoots: roots,
+      },
+    },
+  };
 }
 
 // Debounce writeFiles to avoid rapid-fire regeneration from multiple file events
@@ -1074,24 +5059,54 @@ function scheduleWriteFiles() {
 }
 
 function writeFiles() {
+  const started = Date.now();
   try {
     console.log(`[${new Date().toISOString()}] Regenerating monitor files...`);
 
     const taskLists = getTaskLists();
-    const availableLists = getAllTaskListSummaries();
+    const availableLists = getAllTaskListSummaries(taskLists);
     const selectedListId = taskLists.length > 0 ? taskLists[0].id : '';
     const projectDir = currentConfig.projectDir;
 
+    const listWarnings: Record<string, TaskListWarning[]> = {};
+    for (const list of taskLists) {
+      const warnings = validateTaskList(list);
+      if (warnings.length > 0) listWarnings[list.id] = warnings;
+    }
+    const analytics = computeTaskAnalytics();
+    const listForecasts = forecastTaskLists(taskLists, analytics);
+    const listConflicts: Record<string, FileConflict[]> = {};
+    for (const list of taskLists) {
+      const conflicts = findFileConflicts(list, analytics.cycleTimes);
+      if (conflicts.length > 0) listConflicts[list.id] = conflicts;
+    }
+    const listDiagnostics: Record<string, TaskFileDiagnostic[]> = {};
+    for (const diagnostic of taskFileDiagnostics.values()) {
+      (listDiagnostics[diagnostic.listId] = listDiagnostics[diagnostic.listId] || []).push(diagnostic);
+    }
+    for (const diagnostics of Object.values(listDiagnostics)) diagnostics.sort((a, b) => compareTaskIds(a.file, b.file));
+    const listVerification: Record<string, Record<string, TaskVerification>> = {};
+    for (const list of taskLists) listVerification[list.id] = verifyTaskList(list);
+
     const monitorData: TaskMonitorData = {
       taskLists,
       availableLists,
       selectedListId,
       templates: [],
-      projectDir
+      projectDir,
+      commandTemplates: currentConfig.commandTemplates,
+      listWarnings,
+      agentRegistry: getAgentRegistry(),
+      listForecasts,
+      listVerification,
+      listConflicts,
+      listDiagnostics,
+      readOnly: getServerAccess().readOnly
     };
 
     // Write JSON data file
     fs.writeFileSync(DATA_FILE, JSON.stringify(monitorData, null, 2));
+    lastMonitorData = monitorData;
 
     // Generate self-contained HTML with embedded CSS, JS, and data
     const htmlContent = `<!DOCTYPE html>
@@ -1109,7 +5124,7 @@ function writeFiles() {
   <div id="content"></div>
   <div id="toast" class="toast"></div>
   <div class="commands" id="commands"></div>
-  <div class="footer">Real-time updates (polling every ${currentConfig.pollInterval / 1000}s)</div>
+  <div class="footer">Real-time updates</div>
   <div id="settings-overlay" class="settings-overlay">
     <div class="settings-panel">
       <h2>Settings</h2>
@@ -1118,16 +5133,41 @@ function writeFiles() {
         <input type="text" id="settings-projectDir" placeholder="/path/to/project">
         <div class="hint">Working directory for launched agents</div>
       </div>
+      <div class="settings-field">
+        <label for="settings-taskRoots">Task Roots</label>
+        <textarea id="settings-taskRoots" placeholder="~/.claude/tasks | Main"></textarea>
+        <div class="hint">One directory per line: path | label | project dir (label and project dir optional). The first root wins when two hold the same list ID.</div>
+      </div>
+      <div class="settings-field">
+        <label for="settings-projectRules">List Projects</label>
+        <textarea id="settings-projectRules" placeholder="acme-* = /code/acme"></textarea>
+        <div class="hint">One rule per line: "prefix* = dir" for list IDs starting with prefix, "list-id = dir" for a single list. Other lists use their root's project dir, then the one above.</div>
+      </div>
       <div class="settings-field">
         <label for="settings-pollInterval">Poll Interval (ms)</label>
         <input type="number" id="settings-pollInterval" min="500" max="60000" step="500" placeholder="2000">
-        <div class="hint">How often the dashboard refreshes (500-60000ms)</div>
+        <div class="hint">Fallback refresh rate when the live stream is unavailable (500-60000ms)</div>
       </div>
       <div class="settings-field">
         <label for="settings-agentNames">Agent Names</label>
         <textarea id="settings-agentNames" placeholder="alpha, beta, gamma, ..."></textarea>
         <div class="hint">Comma-separated list of agent names for sequential assignment</div>
       </div>
+      <div class="settings-field">
+        <label>Launch Commands</label>
+        <div class="template-grid">
+          <span>Danger: Code</span><input type="text" id="settings-template-code.cda">
+          <span>Danger: Task</span><input type="text" id="settings-template-task.cda">
+          <span>Reg: Code</span><input type="text" id="settings-template-code.claude">
+          <span>Reg: Task</span><input type="text" id="settings-template-task.claude">
+          <span>Review</span><input type="text" id="settings-template-review">
+        </div>
+        <div class="hint">Placeholders: {projectDir}, {listId}, {taskId}, {agent}. Text in {?...} is left out when a placeholder inside it is empty.</div>
+      </div>
+      <div class="settings-field">
+        <label class="checkbox-label"><input type="checkbox" id="settings-tmuxLaunch">Launch agents in tmux</label>
+        <div class="hint">Code buttons start a detached tmux session per agent instead of copying the command (requires tmux on the server)</div>
+      </div>
       <div class="settings-actions">
         <button class="cancel-btn" onclick="closeSettings()">Cancel</button>
         <button class="save-btn" onclick="saveSettings()">Save</button>
@@ -1142,12 +5182,48 @@ function writeFiles() {
 
     fs.writeFileSync(HTML_FILE, htmlContent);
 
+    // Push the fresh snapshot to connected dashboards
+    broadcastEvent('update', monitorData);
+
+    healthState.lastWriteAt = new Date().toISOString();
+    healthState.lastWriteDurationMs = Date.now() - started;
     console.log(`[${new Date().toISOString()}] Files regenerated successfully`);
   } catch (error) {
+    healthState.lastWriteError = { at: new Date().toISOString(), message: (error as Error).message };
     console.error(`[${new Date().toISOString()}] Error regenerating files:`, error);
   }
 }
 
+// === Server-Sent Events ===
+const SSE_HEARTBEAT_MS = 15000;
+const sseClients = new Set<http.ServerResponse>();
+
+// Last snapshot written, sent to new subscribers so they don't wait for the next change
+let lastMonitorData: TaskMonitorData | null = null;
+
+function broadcastEvent(event: string, data: unknown): void {
+  const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of sseClients) {
+    client.write(payload);
+  }
+}
+
+function handleEventStream(req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-store, must-revalidate',
+    'Connection': 'keep-alive',
+  });
+  res.write('retry: 3000\n\n');
+  if (lastMonitorData) {
+    res.write(`event: update\ndata: ${JSON.stringify(lastMonitorData)}\n\n`);
+  }
+  sseClients.add(res);
+  req.on('close', () => {
+    sseClients.delete(res);
+  });
+}
+
 // === Built-in HTTP Server ===
 const MIME_TYPES: Record<string, string> = {
   '.html': 'text/html',
@@ -1160,19 +5236,175 @@ const MIME_TYPES: Record<string, string> = {
   '.ico': 'image/x-icon',
 };
 
-function startHttpServer(): http.Server {
-  const port = parseInt(process.env.CLAUDE_TASK_MONITOR_PORT || '8080', 10);
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Decodes the captured segments of a route; a malformed %-escape answers 400 and returns null,
+// since decodeURIComponent would otherwise throw out of the request handler
+function decodePathParams(res: http.ServerResponse, ...values: string[]): string[] | null {
+  try {
+    return values.map(value => decodeURIComponent(value));
+  } catch {
+    sendJson(res, 400, { error: 'Malformed URL encoding' });
+    return null;
+  }
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      let parsed: unknown;
+      try {
+        parsed = body.length > 0 ? JSON.parse(body) : {};
+      } catch {
+        reject(new Error('Invalid JSON'));
+        return;
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        reject(new Error('Request body must be a JSON object'));
+        return;
+      }
+      resolve(parsed as Record<string, unknown>);
+    });
+    req.on('error', reject);
+  });
+}
+
+// === Access control ===
+// Launch commands are built from config values, so whoever can reach the API can run
+// commands on this machine. The server binds to loopback by default; sharing it on the
+// LAN should go together with an auth token and, for viewers, read-only mode.
+const AUTH_COOKIE = 'ctm_token';
+const MUTATING_METHODS = ['POST', 'PATCH', 'PUT', 'DELETE'];
+
+function tokenMatches(candidate: string | undefined, token: string): boolean {
+  if (!candidate) return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(token);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Bearer header for scripts, cookie (set by /login) for browsers and EventSource
+function getRequestToken(req: http.IncomingMessage): string | undefined {
+  const auth = req.headers.authorization;
+  if (auth && auth.startsWith('Bearer ')) return auth.slice(7).trim();
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name !== AUTH_COOKIE) continue;
+    try {
+      return decodeURIComponent(rest.join('='));
+    } catch {
+      // A malformed cookie counts as no cookie; the request is then refused as unauthorized
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function isAuthorized(req: http.IncomingMessage, access: ServerAccessConfig): boolean {
+  return access.authToken.length === 0 || tokenMatches(getRequestToken(req), access.authToken);
+}
+
+// Without a token, only loopback names and IP literals are accepted as Host, so a page on
+// a DNS-rebound domain can't talk to the API as if it were same-origin
+function isAllowedHost(hostHeader: string | undefined, access: ServerAccessConfig): boolean {
+  if (access.authToken.length > 0) return true;
+  if (!hostHeader) return false;
+  let hostname: string;
+  try {
+    hostname = new URL(`http://${hostHeader}`).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+  return hostname === 'localhost' || hostname === access.host || net.isIP(hostname) !== 0;
+}
+
+// Browsers send Origin on cross-site requests; anything not same-origin or allow-listed is refused
+function isAllowedOrigin(origin: string | undefined, hostHeader: string | undefined, access: ServerAccessConfig): boolean {
+  if (!origin) return true;
+  if (access.allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === hostHeader;
+  } catch {
+    return false;
+  }
+}
+
+function sendLoginPage(res: http.ServerResponse, status: number, error?: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Claude Tasks Monitor - Sign in</title>
+  <style>
+    body { font-family: 'SF Mono', 'Monaco', 'Inconsolata', 'Fira Code', monospace; background: #0d1117; color: #c9d1d9; display: flex; justify-content: center; padding-top: 20vh; }
+    form { background: #161b22; border: 1px solid #30363d; border-radius: 6px; padding: 24px; width: 320px; }
+    h1 { font-size: 16px; margin: 0 0 16px; }
+    input { width: 100%; box-sizing: border-box; background: #0d1117; color: #c9d1d9; border: 1px solid #30363d; padding: 8px 10px; border-radius: 4px; font-family: inherit; }
+    button { margin-top: 12px; background: #238636; color: #fff; border: none; padding: 6px 16px; border-radius: 4px; cursor: pointer; font-family: inherit; }
+    .error { color: #f85149; font-size: 12px; margin-top: 8px; }
+  </style>
+</head>
+<body>
+  <form method="POST" action="/login">
+    <h1>Claude Tasks Monitor</h1>
+    <input type="password" name="token" placeholder="Access token" autofocus>
+    <button type="submit">Sign in</button>
+    ${error ? `<div class="error">${error}</div>` : ''}
+  </form>
+</body>
+</html>`);
+}
+
+function handleLogin(req: http.IncomingMessage, res: http.ServerResponse, access: ServerAccessConfig): void {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const token = new URLSearchParams(body).get('token') || undefined;
+    if (access.authToken.length === 0 || !tokenMatches(token, access.authToken)) {
+      console.log('[HTTP] Rejected login attempt');
+      sendLoginPage(res, 401, 'Wrong token');
+      return;
+    }
+    res.writeHead(303, {
+      'Set-Cookie': `${AUTH_COOKIE}=${encodeURIComponent(token!)}; HttpOnly; SameSite=Strict; Path=/`,
+      'Location': '/',
+    });
+    res.end();
+  });
+}
 
+function startHttpServer(): http.Server {
   const server = http.createServer((req, res) => {
     const method = req.method || 'GET';
     const urlStr = req.url || '/';
-    const parsedUrl = new URL(urlStr, `http://localhost:${port}`);
+    const parsedUrl = new URL(urlStr, `http://localhost:${PORT}`);
     const pathname = parsedUrl.pathname;
+    const access = getServerAccess();
+    const origin = req.headers.origin;
+
+    if (!isAllowedHost(req.headers.host, access)) {
+      sendJson(res, 403, { error: 'Host not allowed' });
+      return;
+    }
+    if (!isAllowedOrigin(origin, req.headers.host, access)) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
 
-    // CORS headers for local dev
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // CORS only for origins listed in server.allowedOrigins
+    if (origin && access.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-Match, Authorization');
+    }
 
     if (method === 'OPTIONS') {
       res.writeHead(204);
@@ -1180,11 +5412,284 @@ function startHttpServer(): http.Server {
       return;
     }
 
+    if (pathname === '/login') {
+      if (method === 'POST') {
+        handleLogin(req, res, access);
+      } else if (access.authToken.length === 0) {
+        res.writeHead(303, { 'Location': '/' });
+        res.end();
+      } else {
+        sendLoginPage(res, 200);
+      }
+      return;
+    }
+
+    if (!isAuthorized(req, access)) {
+      if (pathname.startsWith('/api/') || pathname.endsWith('.json')) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJson(res, 401, { error: 'Authentication required' });
+      } else {
+        res.writeHead(303, { 'Location': '/login' });
+        res.end();
+      }
+      return;
+    }
+
+    if (access.readOnly && pathname.startsWith('/api/') && MUTATING_METHODS.includes(method)) {
+      sendJson(res, 403, { error: 'The monitor is in read-only mode' });
+      return;
+    }
+
     // API routes
+    if (pathname === '/api/events') {
+      if (method !== 'GET') {
+        res.writeHead(405, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
+        return;
+      }
+      handleEventStream(req, res);
+      return;
+    }
+
+    if (pathname === '/api/archives') {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      sendJson(res, 200, listArchives());
+      return;
+    }
+
+    const archiveMatch = pathname.match(/^\/api\/archives\/([^/]+?)(\/restore)?$/);
+    if (archiveMatch) {
+      const params = decodePathParams(res, archiveMatch[1]);
+      if (!params) return;
+      const [file] = params;
+      if (archiveMatch[2]) {
+        if (method !== 'POST') {
+          sendJson(res, 405, { error: 'Method not allowed' });
+          return;
+        }
+        const result = restoreArchive(file);
+        sendJson(res, result.status, result.success
+          ? { listId: result.listId, path: result.path, taskCount: result.taskCount }
+          : { error: result.error });
+        return;
+      }
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const result = readArchive(file);
+      sendJson(res, result.status, result.archive || { error: result.error });
+      return;
+    }
+
+    if (pathname === '/api/analytics') {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      sendJson(res, 200, computeTaskAnalytics(parsedUrl.searchParams.get('listId') || undefined));
+      return;
+    }
+
+    if (pathname === '/api/history') {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = parsedUrl.searchParams;
+      const since = parseTimeParam(params.get('since'));
+      const until = parseTimeParam(params.get('until'));
+      const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+      if (Number.isNaN(since) || Number.isNaN(until)) {
+        sendJson(res, 400, { error: 'since and until must be ISO dates or epoch milliseconds' });
+        return;
+      }
+      if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        sendJson(res, 400, { error: 'limit must be a positive integer' });
+        return;
+      }
+      sendJson(res, 200, readTaskHistory({
+        listId: params.get('listId') || undefined,
+        taskId: params.get('taskId') || undefined,
+        since,
+        until,
+        limit,
+      }));
+      return;
+    }
+
+    // Both run tmux, so both are POSTs and go through the mutating-request and read-only checks
+    if (pathname === '/api/launch') {
+      if (method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      handleLaunch(req, res).catch((err) => {
+        console.error('[Launch] Failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    if (pathname === '/api/launch/sessions') {
+      if (method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      listLaunchedSessions().then(
+        (sessions) => sendJson(res, 200, sessions),
+        (err) => sendJson(res, 500, { error: (err as Error).message })
+      );
+      return;
+    }
+
+    if (pathname === '/api/agents') {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      sendJson(res, 200, getAgentRegistry());
+      return;
+    }
+
+    if (pathname === '/api/agents/lease') {
+      if (method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      handleAgentLease(req, res).catch((err) => {
+        console.error('[Agents] Lease failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    const releaseMatch = pathname.match(/^\/api\/agents\/([^/]+)\/release$/);
+    if (releaseMatch) {
+      if (method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = decodePathParams(res, releaseMatch[1]);
+      if (!params) return;
+      const result = releaseAgentName(params[0]);
+      sendJson(res, result.status, result.success ? { released: true } : { error: result.error });
+      return;
+    }
+
+    const claimMatch = pathname.match(/^\/api\/lists\/([^/]+)\/claim$/);
+    if (claimMatch) {
+      if (method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = decodePathParams(res, claimMatch[1]);
+      if (!params) return;
+      handleTaskClaim(req, res, params[0]).catch((err) => {
+        console.error('[Tasks] Claim failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    const promptMatch = pathname.match(/^\/api\/lists\/([^/]+)\/prompt$/);
+    if (promptMatch) {
+      const params = decodePathParams(res, promptMatch[1]);
+      if (!params) return;
+      const [listId] = params;
+      if (method === 'GET') {
+        const result = readListPrompt(listId);
+        sendJson(res, result.status, result.success ? { content: result.content, version: result.version } : { error: result.error });
+        return;
+      }
+      if (method !== 'PUT') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      handlePromptWrite(req, res, listId).catch((err) => {
+        console.error('[Tasks] Prompt write failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    const commitsMatch = pathname.match(/^\/api\/lists\/([^/]+)\/tasks\/([^/]+)\/commits$/);
+    if (commitsMatch) {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = decodePathParams(res, commitsMatch[1], commitsMatch[2]);
+      if (!params) return;
+      handleTaskCommits(res, params[0], params[1]).catch((err) => {
+        console.error('[Git] Commit lookup failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    const diffMatch = pathname.match(/^\/api\/lists\/([^/]+)\/commits\/([^/]+)$/);
+    if (diffMatch) {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = decodePathParams(res, diffMatch[1], diffMatch[2]);
+      if (!params) return;
+      handleCommitDiff(res, params[0], params[1]).catch((err) => {
+        console.error('[Git] Diff failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    const reviewMatch = pathname.match(/^\/api\/lists\/([^/]+)\/tasks\/([^/]+)\/review$/);
+    if (reviewMatch) {
+      if (method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = decodePathParams(res, reviewMatch[1], reviewMatch[2]);
+      if (!params) return;
+      handleReviewTask(res, params[0], params[1]).catch((err) => {
+        console.error('[Tasks] Review task creation failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    const taskMatch = pathname.match(/^\/api\/lists\/([^/]+)\/tasks\/([^/]+)$/);
+    if (taskMatch) {
+      if (method !== 'POST' && method !== 'PATCH') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const params = decodePathParams(res, taskMatch[1], taskMatch[2]);
+      if (!params) return;
+      handleTaskUpdate(req, res, params[0], params[1]).catch((err) => {
+        console.error('[Tasks] Update failed:', err);
+        sendJson(res, 500, { error: 'Internal error' });
+      });
+      return;
+    }
+
+    if (pathname === '/api/health') {
+      if (method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const health = getHealth();
+      sendJson(res, health.degraded ? 503 : 200, health.body);
+      return;
+    }
+
     if (pathname === '/api/config') {
       if (method === 'GET') {
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(currentConfig));
+        res.end(JSON.stringify(getPublicConfig()));
         return;
       }
 
@@ -1200,11 +5705,13 @@ function startHttpServer(): http.Server {
               res.end(JSON.stringify({ error: result.error }));
               return;
             }
-            currentConfig = result.config;
-            saveConfig(currentConfig);
+            const previousRoots = currentConfig.taskRoots;
+            useConfig(withoutConfigOverrides(result.config));
+            saveConfig(savedConfig);
+            applyTaskRoots(previousRoots);
             scheduleWriteFiles();
             res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify(currentConfig));
+            res.end(JSON.stringify(getPublicConfig()));
           } catch {
             res.writeHead(400, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ error: 'Invalid JSON' }));
@@ -1250,13 +5757,29 @@ function startHttpServer(): http.Server {
     });
   });
 
-  server.listen(port, () => {
-    console.log(`[HTTP] Server listening on http://localhost:${port}`);
+  // Keep-alive comments stop proxies and browsers from dropping idle streams
+  const heartbeatTimer = setInterval(() => {
+    for (const client of sseClients) {
+      client.write(': heartbeat\n\n');
+    }
+  }, SSE_HEARTBEAT_MS);
+
+  server.on('close', () => {
+    clearInterval(heartbeatTimer);
+  });
+
+  // The bind address is read once; changing it needs a restart
+  const { host, authToken } = getServerAccess();
+  server.listen(PORT, host, () => {
+    console.log(`[HTTP] Server listening on http://${host.includes(':') ? `[${host}]` : host}:${PORT}`);
+    if (authToken.length === 0 && !['127.0.0.1', '::1', 'localhost'].includes(host)) {
+      console.warn(`[HTTP] Listening on ${host} without an auth token: anyone who can reach this port can change settings and launch commands`);
+    }
   });
 
   server.on('error', (err: NodeJS.ErrnoException) => {
     if (err.code === 'EADDRINUSE') {
-      console.error(`[HTTP] Port ${port} is already in use. Set CLAUDE_TASK_MONITOR_PORT to use a different port.`);
+      console.error(`[HTTP] Port ${PORT} is already in use. Use --port or CLAUDE_TASK_MONITOR_PORT to pick a different port.`);
     } else {
       console.error(`[HTTP] Server error:`, err);
     }
@@ -1265,37 +5788,126 @@ function startHttpServer(): http.Server {
   return server;
 }
 
-function migrateOldConfig(): void {
+// === Config migrations ===
+
+const CONFIG_SCHEMA_VERSION = 2;
+
+interface ConfigMigration {
+  version: number;
+  description: string;
+  migrate: (config: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Each step upgrades a parsed config file from the previous version; add one whenever a
+// setting is renamed, moved or reinterpreted, and bump CONFIG_SCHEMA_VERSION to match.
+// Files written before the schema was versioned have no schemaVersion and count as 0.
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: 'record the schema version (settings are unchanged)',
+    migrate: config => config,
+  },
+  {
+    version: 2,
+    description: 'write optional template segments as {?...} instead of [...]',
+    migrate: config => {
+      const templates = config.commandTemplates;
+      if (typeof templates !== 'object' || templates === null) return config;
+      const migrated: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(templates)) {
+        // Only brackets holding a placeholder were optional segments; others were shell syntax
+        migrated[key] = typeof value === 'string'
+          ? value.replace(/\[([^\[\]]*(?<!\$)\{[A-Za-z_]\w*\}[^\[\]]*)\]/g, '{?$1}')
+          : value;
+      }
+      return { ...config, commandTemplates: migrated };
+    },
+  },
+];
+
+function migrateConfig(): void {
+  // v1.x kept the config next to the package; profiles and --config files never lived there
   const oldConfigPath = path.join(__dirname, '..', 'monitor-config.json');
   try {
-    if (fs.existsSync(oldConfigPath) && !fs.existsSync(CONFIG_FILE)) {
+    if (!CLI_OPTIONS.configFile && !CLI_OPTIONS.profile && fs.existsSync(oldConfigPath) && !fs.existsSync(CONFIG_FILE)) {
       fs.copyFileSync(oldConfigPath, CONFIG_FILE);
       console.log(`[Migration] Copied config from ${oldConfigPath} → ${CONFIG_FILE}`);
     }
   } catch (err) {
     console.error('[Migration] Failed to migrate old config:', err);
   }
+
+  if (!fs.existsSync(CONFIG_FILE)) return;
+  try {
+    const { schemaVersion, ...fields } = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+    const fromVersion = typeof schemaVersion === 'number' ? schemaVersion : 0;
+    if (fromVersion >= CONFIG_SCHEMA_VERSION) return;
+    let config: Record<string, unknown> = fields;
+    for (const step of CONFIG_MIGRATIONS) {
+      if (step.version <= fromVersion) continue;
+      config = step.migrate(config);
+      console.log(`[Migration] Config v${step.version - 1} → v${step.version}: ${step.description}`);
+    }
+    // Keep the original, since older monitors can't read what we write
+    const backupPath = `${CONFIG_FILE}.v${fromVersion}.bak`;
+    fs.copyFileSync(CONFIG_FILE, backupPath);
+    writeFileAtomic(CONFIG_FILE, JSON.stringify({ schemaVersion: CONFIG_SCHEMA_VERSION, ...config }, null, 2) + '\n');
+    console.log(`[Migration] Upgraded ${CONFIG_FILE} to schema v${CONFIG_SCHEMA_VERSION} (previous file kept at ${backupPath})`);
+  } catch (err) {
+    // loadConfig() reports an unreadable file
+    console.error('[Migration] Failed to upgrade config:', err);
+  }
+}
+
+// Best effort: a missing opener only costs a log line
+function openInBrowser(url: string): void {
+  const [command, args] = process.platform === 'darwin' ? ['open', [url]]
+    : process.platform === 'win32' ? ['cmd', ['/c', 'start', '', url]]
+    : ['xdg-open', [url]];
+  const child = childProcess.spawn(command as string, args as string[], { detached: true, stdio: 'ignore' });
+  child.on('error', (err) => console.warn(`[Open] Could not open ${url}: ${err.message}`));
+  child.unref();
 }
 
 function printHelp(): void {
   console.log(`
-Claude Task Monitor v2.4.0
+Claude Task Monitor v${MONITOR_VERSION}
 
 Usage:
-  claude-task-monitor              Start the monitor dashboard
-  claude-task-monitor --help       Show this help message
+  claude-task-monitor [options]        Start the monitor dashboard
+  claude-task-monitor --help           Show this help message
   claude-task-monitor --install-skill  Install the Claude Code skill
 
+Options:
+  --port <port>           HTTP server port (default: 8080)
+  --host <address>        Bind address (default: server.host in the config, or 127.0.0.1)
+  --tasks-dir <dir>       Watch only this tasks directory; archives go to <dir>/.archive
+  --data-dir <dir>        Data directory for config, history and output
+  --config <file>         Use this config file
+  --profile <name>        Use monitor-config.<name>.json in the data directory, with the
+                          profile's own history and output in profiles/<name>/
+  --poll-interval <ms>    Dashboard polling fallback, 500-60000 (default: 2000)
+  --project-dir <dir>     Project directory for launch commands
+  --open                  Open the dashboard in a browser once the server is up
+
+  --tasks-dir, --poll-interval and --project-dir override the config file for this run
+  only. Flags win over environment variables.
+
 Environment Variables:
   CLAUDE_TASK_MONITOR_DATA_DIR   Data directory (default: ~/.claude/claude-task-monitor/)
   CLAUDE_TASK_MONITOR_OUTPUT     Output directory for HTML/JSON (default: same as data dir)
   CLAUDE_TASK_MONITOR_PORT       HTTP server port (default: 8080)
+  CLAUDE_TASK_MONITOR_HOST       Bind address (default: 127.0.0.1)
+  CLAUDE_TASK_MONITOR_TOKEN      Require this token (Bearer header or /login cookie)
+  CLAUDE_TASK_MONITOR_READ_ONLY  Set to 1 to disable all changes from the dashboard and API
 
 File Locations:
   Config:     ~/.claude/claude-task-monitor/monitor-config.json
   Data:       ~/.claude/claude-task-monitor/task-monitor-data.json
   Dashboard:  ~/.claude/claude-task-monitor/task-monitor.html
-  Tasks:      ~/.claude/tasks/
+  History:    ~/.claude/claude-task-monitor/task-history.jsonl
+  Leases:     ~/.claude/claude-task-monitor/agent-leases.json
+  Tasks:      ~/.claude/tasks/ (more via taskRoots in the config)
   Archives:   ~/.claude/tasks/.archive/
 
 Homepage: https://github.com/gilbertdelbosco/claude-task-monitor
@@ -1318,37 +5930,39 @@ function installSkill(): void {
 }
 
 function main() {
-  // Parse CLI flags
-  const args = process.argv.slice(2);
-  if (args.includes('--help') || args.includes('-h')) {
+  // CLI flags were parsed at startup (see parseCliArgs)
+  if (CLI_OPTIONS.help) {
     printHelp();
     process.exit(0);
   }
-  if (args.includes('--install-skill')) {
+  if (CLI.error) {
+    console.error(`${CLI.error}\nRun 'claude-task-monitor --help' for the available options.`);
+    process.exit(1);
+  }
+  if (CLI_OPTIONS.installSkill) {
     installSkill();
     process.exit(0);
   }
 
-  // Ensure DATA_DIR exists
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+  // Ensure DATA_DIR (and the profile's directory inside it) exists
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true });
   }
 
-  // Migrate old config from project directory
-  migrateOldConfig();
+  // Move a v1.x config into place and upgrade older schema versions
+  migrateConfig();
 
   // Load config (create default if missing)
-  currentConfig = loadConfig();
+  useConfig(loadConfig());
   if (!fs.existsSync(CONFIG_FILE)) {
-    saveConfig(currentConfig);
+    fs.mkdirSync(path.dirname(CONFIG_FILE), { recursive: true });
+    saveConfig(savedConfig);
     console.log(`[Config] Created default config at ${CONFIG_FILE}`);
   }
 
-  const port = parseInt(process.env.CLAUDE_TASK_MONITOR_PORT || '8080', 10);
-
   console.log(`
 ╔═══════════════════════════════════════════════════════════╗
-║           Claude Task Monitor v2.4.0                      ║
+║${`           Claude Task Monitor v${MONITOR_VERSION}`.padEnd(59)}║
 ╚═══════════════════════════════════════════════════════════╝
 `);
 
@@ -1357,27 +5971,45 @@ function main() {
     fs.mkdirSync(TASKS_DIR, { recursive: true });
   }
 
-  // Initial write
+  // Initial scan and write
+  buildTaskIndex();
+  seedTaskHistory();
+  loadAgentLeases();
   writeFiles();
 
+  // Expired leases free their names without any task file changing
+  const leaseTimer = setInterval(() => {
+    if (pruneAgentLeases(getBusyOwners())) {
+      saveAgentLeases();
+      scheduleWriteFiles();
+    }
+  }, AGENT_LEASE_PRUNE_MS);
+
   // Start HTTP server
   const httpServer = startHttpServer();
 
-  console.log(`\nDashboard: http://localhost:${port}/`);
-  console.log(`Data dir:  ${DATA_DIR}`);
-  console.log(`Config:    ${CONFIG_FILE}`);
+  const { host, readOnly } = getServerAccess();
+  const dashboardHost = ['127.0.0.1', '::1', '0.0.0.0', '::'].includes(host) ? 'localhost' : host;
+  console.log(`\nDashboard: http://${dashboardHost}:${PORT}/${readOnly ? ' (read-only)' : ''}`);
+  console.log(`Data dir:  ${STATE_DIR}`);
+  console.log(`Config:    ${CONFIG_FILE}${CLI_OPTIONS.profile ? ` (profile ${CLI_OPTIONS.profile})` : ''}`);
   console.log(`Project:   ${currentConfig.projectDir}`);
+  console.log(`Tasks:     ${currentConfig.taskRoots.map(r => r.label ? `${r.path} (${r.label})` : r.path).join(', ')}`);
   console.log(`\nFeatures:`);
-  console.log(`  - Built-in HTTP server (port ${port})`);
-  console.log(`  - Real-time updates (polling every ${currentConfig.pollInterval / 1000}s)`);
+  console.log(`  - Built-in HTTP server (port ${PORT})`);
+  console.log(`  - Real-time updates via /api/events (polling fallback every ${currentConfig.pollInterval / 1000}s)`);
   console.log(`  - Settings panel in dashboard`);
-  console.log(`  - Archives completed task lists to ~/.claude/tasks/.archive/`);
+  console.log(`  - Archives completed task lists to ${ARCHIVE_DIR}`);
   console.log(`  - Launch agents with one click`);
   console.log(`\nTip: Run 'claude-task-monitor --install-skill' to add the Claude Code skill.`);
   console.log(`\nWatching for changes... (Ctrl+C to exit)\n`);
 
+  if (CLI_OPTIONS.open) {
+    httpServer.once('listening', () => openInBrowser(`http://${dashboardHost.includes(':') ? `[${dashboardHost}]` : dashboardHost}:${PORT}/`));
+  }
+
   // Set up file watcher for tasks
-  const taskWatcher = chokidar.watch(TASKS_DIR, {
+  const watcher = chokidar.watch(currentConfig.taskRoots.map(r => r.path), {
     persistent: true,
     ignoreInitial: true,
     usePolling: true,
@@ -1386,37 +6018,65 @@ function main() {
     depth: 99,
   });
 
-  taskWatcher
+  taskWatcher = watcher;
+
+  watcher
     .on("ready", () => {
-      console.log(`[Watcher] Ready and watching: ${TASKS_DIR}`);
+      healthState.watcherReady = true;
+      console.log(`[Watcher] Ready and watching: ${currentConfig.taskRoots.map(r => r.path).join(', ')}`);
     })
     .on("add", (filePath) => {
+      noteWatcherEvent('add', filePath);
+      if (path.basename(filePath) === PROMPT_FILE) { scheduleWriteFiles(); return; }
       if (!filePath.endsWith('.json') || filePath.includes('.archive')) return;
       console.log(`[Watcher] File added: ${filePath}`);
+      indexTaskFile(filePath);
       scheduleWriteFiles();
     })
     .on("change", (filePath) => {
+      noteWatcherEvent('change', filePath);
+      if (path.basename(filePath) === PROMPT_FILE) { scheduleWriteFiles(); return; }
       if (!filePath.endsWith('.json') || filePath.includes('.archive')) return;
       console.log(`[Watcher] File changed: ${filePath}`);
+      indexTaskFile(filePath);
       scheduleWriteFiles();
     })
     .on("unlink", (filePath) => {
+      noteWatcherEvent('unlink', filePath);
+      if (path.basename(filePath) === PROMPT_FILE) { scheduleWriteFiles(); return; }
       if (!filePath.endsWith('.json') || filePath.includes('.archive')) return;
 
-      // Archive the task list before it's gone
-      const taskListId = path.basename(path.dirname(filePath));
-      const cachedData = taskDataCache.get(taskListId);
-      if (cachedData && cachedData.tasks.length > 0) {
-        archiveTaskList(taskListId, cachedData.tasks).catch((err) => {
+      // Archive the task list before it's gone (files of a shadowed list were never indexed)
+      const taskListId = taskFileIndex.get(filePath)?.listId;
+      const cachedData = taskListId ? taskDataCache.get(taskListId) : undefined;
+      if (taskListId && cachedData && cachedData.tasks.length > 0) {
+        archiveTaskList(taskListId, cachedData.tasks, cachedData.root).catch((err) => {
           console.error(`[Archive] Error archiving ${taskListId}:`, err);
         });
         taskDataCache.delete(taskListId);
       }
 
       console.log(`[Watcher] File removed: ${filePath}`);
+      unindexTaskFile(filePath);
+      scheduleWriteFiles();
+    })
+    .on("addDir", (dirPath) => {
+      noteWatcherEvent('addDir', dirPath);
+      if (!isTaskRoot(path.dirname(dirPath)) || path.basename(dirPath) === '.archive') return;
+      // Directories moved in wholesale may not emit per-file add events
+      reindexTaskList(path.basename(dirPath));
+      scheduleWriteFiles();
+    })
+    .on("unlinkDir", (dirPath) => {
+      noteWatcherEvent('unlinkDir', dirPath);
+      if (!isTaskRoot(path.dirname(dirPath))) return;
+      unindexTaskListDir(dirPath);
+      // A list with the same ID in a later root is no longer shadowed
+      reindexTaskList(path.basename(dirPath));
       scheduleWriteFiles();
     })
     .on("error", (error) => {
+      healthState.lastWatcherError = { at: new Date().toISOString(), message: String(error) };
       console.error(`[Watcher] Error: ${error}`);
     });
 
@@ -1431,7 +6091,9 @@ function main() {
   configWatcher.on("change", () => {
     console.log(`[Config] Config file changed externally, reloading...`);
     const newConfig = loadConfig();
-    currentConfig = newConfig;
+    const previousRoots = currentConfig.taskRoots;
+    useConfig(newConfig);
+    applyTaskRoots(previousRoots);
     console.log(`[Config] Reloaded: projectDir=${currentConfig.projectDir}, pollInterval=${currentConfig.pollInterval}`);
     scheduleWriteFiles();
   });
@@ -1439,8 +6101,12 @@ function main() {
   // Handle graceful shutdown
   process.on("SIGINT", () => {
     console.log("\nGoodbye!");
-    taskWatcher.close();
+    watcher.close();
     configWatcher.close();
+    clearInterval(leaseTimer);
+    for (const client of sseClients) {
+      client.end();
+    }
     httpServer.close();
     process.exit(0);
   });